@@ -0,0 +1,142 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assembleMp3, buildChapterTag, frameDurationMs, parseFrameHeader, parseMp3Frames } from './audio-assembler.js';
+
+const STEREO = 0x00;
+const MONO = 0xc0;
+
+// MPEG-1 Layer III, 128 kbps, no CRC: 417-byte frames of 1152 samples.
+// The body is filled with `fill` so frames from different clips are told apart.
+function frame(fill: number, options: { channelMode?: number; sampleRate?: 44100 | 48000 } = {}): Buffer {
+  const { channelMode = STEREO, sampleRate = 44100 } = options;
+  const header = Buffer.from([0xff, 0xfb, sampleRate === 44100 ? 0x90 : 0x94, channelMode]);
+  const length = parseFrameHeader(header, 0)!.frameLength;
+  const data = Buffer.alloc(length, fill);
+  header.copy(data, 0);
+  return data;
+}
+
+function clip(count: number, fill: number, options?: Parameters<typeof frame>[1]): Buffer {
+  return Buffer.concat(Array.from({ length: count }, () => frame(fill, options)));
+}
+
+// An ID3v2.3 tag with an empty body of `size` bytes
+function id3v2(size: number): Buffer {
+  return Buffer.concat([Buffer.from('ID3', 'latin1'), Buffer.from([3, 0, 0, 0, 0, 0, size]), Buffer.alloc(size)]);
+}
+
+function id3v1(): Buffer {
+  const tag = Buffer.alloc(128);
+  tag.write('TAG', 0, 'latin1');
+  return tag;
+}
+
+// A LAME Info frame: Xing-style tag right after the stereo side info
+function infoFrame(): Buffer {
+  const data = frame(0);
+  data.write('Info', 4 + 32, 'latin1');
+  return data;
+}
+
+const FRAME_MS = (1152 / 44100) * 1000;
+
+describe('parseFrameHeader', () => {
+  it('decodes an MPEG-1 Layer III header', () => {
+    const header = parseFrameHeader(frame(0x55, { channelMode: MONO }), 0);
+    assert.deepEqual(header, {
+      version: 1,
+      layer: 3,
+      bitrate: 128,
+      sampleRate: 44100,
+      padding: false,
+      channelMode: 3,
+      frameLength: 417,
+      samples: 1152
+    });
+    assert.equal(frameDurationMs(header!), FRAME_MS);
+  });
+
+  it('rejects bytes that are not a frame header', () => {
+    assert.equal(parseFrameHeader(Buffer.from([0x49, 0x44, 0x33, 0x04]), 0), null);
+    // Free-format bitrate cannot be sized
+    assert.equal(parseFrameHeader(Buffer.from([0xff, 0xfb, 0x00, 0x00]), 0), null);
+  });
+});
+
+describe('parseMp3Frames', () => {
+  it('skips ID3v2 and ID3v1 tags and a leading Info frame', () => {
+    const frames = parseMp3Frames(Buffer.concat([id3v2(20), infoFrame(), clip(3, 0x55), id3v1()]));
+    assert.equal(frames.length, 3);
+    assert.ok(frames.every(entry => entry.data[10] === 0x55));
+    assert.equal(frames[0].offset, 30 + 417);
+  });
+
+  it('resynchronises after garbage between frames', () => {
+    const frames = parseMp3Frames(Buffer.concat([clip(2, 0x55), Buffer.from('junk'), clip(2, 0x55)]));
+    assert.equal(frames.length, 4);
+  });
+});
+
+describe('assembleMp3', () => {
+  it('joins clips with silent frames between them and times each clip', () => {
+    const result = assembleMp3(
+      [{ speaker: 'Ada', audio: Buffer.concat([id3v2(10), clip(10, 0x11)]) }, { speaker: 'Alan', audio: clip(5, 0x22) }],
+      { silenceMs: 100, chapters: false }
+    );
+
+    // ceil(100 / 26.12) = 4 silent frames
+    const frames = parseMp3Frames(result.buffer);
+    assert.equal(frames.length, 10 + 4 + 5);
+    const silent = frames.slice(10, 14);
+    assert.ok(silent.every(entry => entry.data.subarray(4).every(byte => byte === 0)));
+    assert.equal(frames[14].data[10], 0x22);
+
+    assert.deepEqual(result.timings, [
+      { index: 0, speaker: 'Ada', startMs: 0, endMs: Math.round(10 * FRAME_MS), startByte: 0, endByte: 10 * 417 },
+      {
+        index: 1,
+        speaker: 'Alan',
+        startMs: Math.round(14 * FRAME_MS),
+        endMs: Math.round(19 * FRAME_MS),
+        startByte: 14 * 417,
+        endByte: 19 * 417
+      }
+    ]);
+    assert.equal(result.durationMs, Math.round(19 * FRAME_MS));
+  });
+
+  it('prepends a chapter tag and shifts byte offsets past it', () => {
+    const result = assembleMp3([{ speaker: 'Ada', audio: clip(2, 0x11) }, { speaker: 'Alan', audio: clip(2, 0x22), title: 'Rebuttal' }], {
+      silenceMs: 0,
+      title: 'Debate'
+    });
+    const tag = buildChapterTag(result.timings.map(timing => ({ ...timing, startByte: 0, endByte: 0 })), ['Ada', 'Rebuttal'], 'Debate');
+
+    assert.equal(result.buffer.toString('latin1', 0, 3), 'ID3');
+    assert.ok(result.buffer.subarray(0, tag.length).equals(tag));
+    assert.equal(result.timings[0].startByte, tag.length);
+    assert.equal(result.timings[1].startByte, tag.length + 2 * 417);
+    assert.ok(result.buffer.includes(Buffer.from('Rebuttal')));
+    assert.equal(parseMp3Frames(result.buffer).length, 4);
+  });
+
+  it('skips clips whose sample rate or channel count differs from the first', () => {
+    const result = assembleMp3(
+      [
+        { speaker: 'Ada', audio: clip(3, 0x11) },
+        { speaker: 'Mono', audio: clip(3, 0x22, { channelMode: MONO }) },
+        { speaker: 'Fast', audio: clip(3, 0x33, { sampleRate: 48000 }) },
+        { speaker: 'Empty', audio: Buffer.from('not audio') },
+        { speaker: 'Alan', audio: clip(3, 0x44) }
+      ],
+      { silenceMs: 0, chapters: false }
+    );
+
+    assert.deepEqual(result.timings.map(timing => timing.speaker), ['Ada', 'Alan']);
+    assert.deepEqual(parseMp3Frames(result.buffer).map(entry => entry.data[10]), [0x11, 0x11, 0x11, 0x44, 0x44, 0x44]);
+  });
+
+  it('returns empty audio when no clip has frames', () => {
+    assert.deepEqual(assembleMp3([{ speaker: 'Ada', audio: Buffer.alloc(0) }]), { buffer: Buffer.alloc(0), durationMs: 0, timings: [] });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Pure TypeScript MP3 assembly: splits synthesized clips into MPEG audio
+ * frames, drops per-clip metadata (ID3 tags, Xing/Info/VBRI headers),
+ * inserts silent frames between clips and prepends an ID3v2.4 tag with one
+ * chapter per clip. No native binaries or decoders are involved.
+ */
+
+export interface Mp3FrameHeader {
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  bitrate: number; // kbps
+  sampleRate: number; // Hz
+  padding: boolean;
+  channelMode: number; // 0 stereo, 1 joint, 2 dual, 3 mono
+  frameLength: number; // bytes, header included
+  samples: number; // samples per channel in this frame
+}
+
+export interface Mp3Frame {
+  offset: number;
+  header: Mp3FrameHeader;
+  data: Buffer;
+}
+
+export interface AudioSegment {
+  speaker: string;
+  audio: Buffer;
+  title?: string;
+}
+
+export interface SegmentTiming {
+  index: number; // position in the segments passed in
+  speaker: string;
+  startMs: number;
+  endMs: number;
+  startByte: number;
+  endByte: number;
+}
+
+export interface AssembleOptions {
+  silenceMs?: number; // pause inserted between segments
+  chapters?: boolean; // prepend an ID3v2 tag with CHAP/CTOC frames
+  title?: string;
+}
+
+export interface AssembledAudio {
+  buffer: Buffer;
+  durationMs: number;
+  timings: SegmentTiming[];
+}
+
+// Bitrates in kbps indexed by [table][bitrateIndex]
+const BITRATES: Record<string, number[]> = {
+  'v1l1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'v1l2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'v1l3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'v2l1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'v2l23': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+const SAMPLE_RATES: Record<string, number[]> = {
+  '1': [44100, 48000, 32000],
+  '2': [22050, 24000, 16000],
+  '2.5': [11025, 12000, 8000]
+};
+
+/**
+ * Decode the 4-byte frame header at `offset`, or return null if the bytes
+ * there are not a valid MPEG audio frame header.
+ */
+export function parseFrameHeader(buffer: Buffer, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > buffer.length) return null;
+  const b1 = buffer[offset + 1];
+  const b2 = buffer[offset + 2];
+  const b3 = buffer[offset + 3];
+  if (buffer[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  const bitrateIndex = (b2 >> 4) & 0x0f;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    // Reserved values, or free-format bitrate which we cannot size
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const table = version === 1 ? `v1l${layer}` : layer === 1 ? 'v2l1' : 'v2l23';
+  const bitrate = BITRATES[table][bitrateIndex];
+  const sampleRate = SAMPLE_RATES[String(version)][sampleRateIndex];
+  const padding = ((b2 >> 1) & 0x01) === 1;
+  const channelMode = (b3 >> 6) & 0x03;
+
+  let frameLength: number;
+  let samples: number;
+  if (layer === 1) {
+    frameLength = (Math.floor((12 * bitrate * 1000) / sampleRate) + (padding ? 1 : 0)) * 4;
+    samples = 384;
+  } else if (layer === 3 && version !== 1) {
+    frameLength = Math.floor((72 * bitrate * 1000) / sampleRate) + (padding ? 1 : 0);
+    samples = 576;
+  } else {
+    frameLength = Math.floor((144 * bitrate * 1000) / sampleRate) + (padding ? 1 : 0);
+    samples = 1152;
+  }
+
+  return { version, layer, bitrate, sampleRate, padding, channelMode, frameLength, samples };
+}
+
+export function frameDurationMs(header: Mp3FrameHeader): number {
+  return (header.samples / header.sampleRate) * 1000;
+}
+
+function channelsOf(header: Mp3FrameHeader): string {
+  return header.channelMode === 3 ? 'mono' : 'stereo';
+}
+
+/**
+ * Why frames like `header` cannot join a stream of `template` frames, if
+ * they cannot. Players do not switch sample rate or channel count
+ * mid-stream, and this assembler does not resample.
+ */
+function mismatchOf(header: Mp3FrameHeader, template: Mp3FrameHeader): string | undefined {
+  if (header.sampleRate !== template.sampleRate) {
+    return `uses ${header.sampleRate}Hz, expected ${template.sampleRate}Hz`;
+  }
+  if (channelsOf(header) !== channelsOf(template)) {
+    return `is ${channelsOf(header)}, expected ${channelsOf(template)}`;
+  }
+  return undefined;
+}
+
+// Size of a leading ID3v2 tag (0 if there is none)
+function id3v2Length(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+  const hasFooter = (buffer[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+// Xing/Info (LAME) and VBRI headers describe a single file; drop them when joining
+function isInfoFrame(frame: Mp3Frame): boolean {
+  const { header, data } = frame;
+  const mono = header.channelMode === 3;
+  const sideInfo = header.version === 1 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+  const xingOffset = 4 + sideInfo;
+  const tag = data.toString('latin1', xingOffset, xingOffset + 4);
+  return tag === 'Xing' || tag === 'Info' || data.toString('latin1', 36, 40) === 'VBRI';
+}
+
+/**
+ * Split a buffer into MPEG audio frames. Garbage between frames is skipped
+ * by resynchronising on the next header whose successor also parses.
+ */
+export function parseMp3Frames(buffer: Buffer): Mp3Frame[] {
+  const frames: Mp3Frame[] = [];
+  let end = buffer.length;
+  if (end >= 128 && buffer.toString('latin1', end - 128, end - 125) === 'TAG') {
+    end -= 128; // ID3v1 trailer
+  }
+
+  let offset = id3v2Length(buffer);
+  while (offset + 4 <= end) {
+    const header = parseFrameHeader(buffer, offset);
+    if (!header || offset + header.frameLength > end) {
+      offset++;
+      continue;
+    }
+    // Guard against false sync words inside audio data before we have a lock
+    if (!frames.length && offset + header.frameLength + 4 <= end && !parseFrameHeader(buffer, offset + header.frameLength)) {
+      offset++;
+      continue;
+    }
+    const frame = { offset, header, data: buffer.subarray(offset, offset + header.frameLength) };
+    if (!(frames.length === 0 && isInfoFrame(frame))) {
+      frames.push(frame);
+    }
+    offset += header.frameLength;
+  }
+  return frames;
+}
+
+/**
+ * A frame of digital silence matching `template`: header with CRC disabled
+ * and padding cleared, followed by zeroed side info and main data.
+ */
+export function createSilentFrame(template: Mp3FrameHeader, source: Buffer): Buffer {
+  const header = Buffer.from(source.subarray(0, 4));
+  header[1] |= 0x01; // protection bit set = no CRC
+  header[2] &= ~0x02; // clear padding
+  const length = parseFrameHeader(header, 0)?.frameLength ?? template.frameLength;
+  const frame = Buffer.alloc(length);
+  header.copy(frame, 0);
+  return frame;
+}
+
+function syncsafe(size: number): Buffer {
+  return Buffer.from([(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+}
+
+function id3Frame(id: string, body: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(id, 'latin1'), syncsafe(body.length), Buffer.from([0, 0]), body]);
+}
+
+function textFrame(id: string, text: string): Buffer {
+  return id3Frame(id, Buffer.concat([Buffer.from([0x03]), Buffer.from(text, 'utf8')]));
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(Math.max(0, Math.min(0xffffffff, Math.round(value))), 0);
+  return buffer;
+}
+
+/**
+ * ID3v2.4 tag with a CTOC table of contents and one CHAP frame per segment.
+ * Byte offsets are left unset (0xFFFFFFFF) so players rely on the times.
+ */
+export function buildChapterTag(timings: SegmentTiming[], titles: string[], title?: string): Buffer {
+  const nul = Buffer.from([0]);
+  const chapterIds = timings.map((_, i) => `chp${i}`);
+  const frames: Buffer[] = [];
+  if (title) frames.push(textFrame('TIT2', title));
+
+  frames.push(id3Frame('CTOC', Buffer.concat([
+    Buffer.from('toc', 'latin1'), nul,
+    Buffer.from([0x03, chapterIds.length]), // top-level, ordered
+    ...chapterIds.map(id => Buffer.concat([Buffer.from(id, 'latin1'), nul]))
+  ])));
+
+  timings.forEach((timing, i) => {
+    frames.push(id3Frame('CHAP', Buffer.concat([
+      Buffer.from(chapterIds[i], 'latin1'), nul,
+      uint32(timing.startMs),
+      uint32(timing.endMs),
+      uint32(0xffffffff),
+      uint32(0xffffffff),
+      textFrame('TIT2', titles[i])
+    ])));
+  });
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.concat([Buffer.from('ID3', 'latin1'), Buffer.from([0x04, 0x00, 0x00]), syncsafe(body.length)]);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Join MP3 clips into a single stream with silence between them and report
+ * where each clip starts and ends. Segments that contain no decodable frames,
+ * or whose sample rate or channel count differs from the first clip's, are
+ * skipped and get no timing entry.
+ */
+export function assembleMp3(segments: AudioSegment[], options: AssembleOptions = {}): AssembledAudio {
+  const { silenceMs = 600, chapters = true, title } = options;
+
+  const parsed = segments.map(segment => parseMp3Frames(segment.audio));
+  const firstWithAudio = parsed.find(frames => frames.length > 0);
+  if (!firstWithAudio) {
+    return { buffer: Buffer.alloc(0), durationMs: 0, timings: [] };
+  }
+
+  const template = firstWithAudio[0];
+  const silentFrame = createSilentFrame(template.header, template.data);
+  const silenceFrameCount = Math.ceil(silenceMs / frameDurationMs(template.header));
+
+  const parts: Buffer[] = [];
+  const timings: SegmentTiming[] = [];
+  const titles: string[] = [];
+  let bytes = 0;
+  let elapsedMs = 0;
+
+  parsed.forEach((frames, index) => {
+    if (!frames.length) {
+      console.warn(`[AudioAssembler] Segment ${index} (${segments[index].speaker}) has no MP3 frames; skipping`);
+      return;
+    }
+    const mismatch = mismatchOf(frames[0].header, template.header);
+    if (mismatch) {
+      console.warn(`[AudioAssembler] Segment ${index} (${segments[index].speaker}) ${mismatch}; skipping`);
+      return;
+    }
+    if (timings.length && silenceFrameCount > 0) {
+      for (let i = 0; i < silenceFrameCount; i++) parts.push(silentFrame);
+      bytes += silentFrame.length * silenceFrameCount;
+      elapsedMs += frameDurationMs(template.header) * silenceFrameCount;
+    }
+
+    const startMs = elapsedMs;
+    const startByte = bytes;
+    for (const frame of frames) {
+      parts.push(frame.data);
+      bytes += frame.data.length;
+      elapsedMs += frameDurationMs(frame.header);
+    }
+    timings.push({
+      index,
+      speaker: segments[index].speaker,
+      startMs: Math.round(startMs),
+      endMs: Math.round(elapsedMs),
+      startByte,
+      endByte: bytes
+    });
+    titles.push(segments[index].title || segments[index].speaker);
+  });
+
+  let buffer = Buffer.concat(parts);
+  if (chapters && timings.length) {
+    const tag = buildChapterTag(timings, titles, title);
+    buffer = Buffer.concat([tag, buffer]);
+    for (const timing of timings) {
+      timing.startByte += tag.length;
+      timing.endByte += tag.length;
+    }
+  }
+
+  return { buffer, durationMs: Math.round(elapsedMs), timings };
+}
@@ -1,36 +1,167 @@
-// Simple conversation manager for Slack integration
+import { createLLMProvider, type ChatMessage, type LLMProvider, type TokenHandler } from "./llm-provider.js";
+import { knowledgeBase, type RetrievedChunk } from "./knowledge-base.js";
+import { personaRegistry, personaFromTwin, slugify } from "./persona-registry.js";
+import { twinRevisionService } from "./twin-revisions.js";
+import { activeProfile } from "./persona-profile.js";
+import { qaService, type QaRecall } from "./qa-service.js";
+import type { DigitalTwin, TwinQaPair } from "./schema.js";
+
+export interface GenerateOptions {
+  // Receives text increments as the reply is generated
+  onToken?: TokenHandler;
+  // Answer with the twin revisions this conversation is pinned to
+  conversationId?: number;
+}
+
+export interface HistoryEntry {
+  role: "user" | "assistant";
+  content: string;
+  persona?: string;
+}
+
+// Keep prompts bounded; older turns matter less than the latest exchange
+const MAX_HISTORY_MESSAGES = 20;
+
+export { slugify };
+
+export function titleFromSlug(slug: string): string {
+  return slug
+    .split("-")
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+}
+
 export class ConversationManager {
-  private conversations = new Map<string, any>();
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider = createLLMProvider()) {
+    this.provider = provider;
+    console.log(`[ConversationManager] Using LLM provider: ${this.provider.name}`);
+  }
+
+  setProvider(provider: LLMProvider) {
+    this.provider = provider;
+  }
 
   async generateResponse(
     persona: string,
     message: string,
-    history: any[] = []
-  ) {
-    // This would integrate with your AI service (Anthropic, OpenAI, etc.)
-    // For now, return a contextual response based on persona
-
-    const personaPrompts: Record<string, string> = {
-      "albert-einstein":
-        "I am Albert Einstein. I approach problems with curiosity and deep thinking about the fundamental nature of reality.",
-      "elon-musk":
-        "I am Elon Musk. I think big, move fast, and focus on solutions that can scale to help humanity.",
-      "steve-jobs":
-        "I am Steve Jobs. I believe in the intersection of technology and liberal arts, creating products that are both functional and beautiful.",
-      "leonardo-da-vinci":
-        "I am Leonardo da Vinci. I see connections between art, science, and engineering, always observing and learning from nature.",
-      "walt-disney":
-        "I am Walt Disney. I believe in the power of imagination and storytelling to bring joy and wonder to people's lives.",
-      "emad-mostaque":
-        "I am Emad Mostaque. I focus on democratizing AI and making advanced technology accessible to everyone.",
-      "fei-fei-li":
-        "I am Fei-Fei Li. I work to advance AI research while ensuring it benefits humanity and addresses important societal challenges.",
-    };
-
-    const prompt = personaPrompts[persona] || "I am a helpful AI assistant.";
-
-    // Simple response generation (replace with actual AI service)
-    return `${prompt} Regarding your question about "${message}", let me share my perspective... [This would be replaced with actual AI-generated content based on the persona's expertise and personality]`;
+    history: HistoryEntry[] = [],
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    const current = await this.findTwin(persona);
+    const twin = current ? await twinRevisionService.resolveForConversation(current, options.conversationId) : undefined;
+    // Key questions get the authored answer instead of a fresh one
+    const recalled = twin ? await this.recallAnswer(twin.id, message) : undefined;
+    if (recalled?.verbatim) {
+      console.log(`[ConversationManager] Answering with authored Q&A pair ${recalled.pair.id} (score ${recalled.score})`);
+      options.onToken?.(recalled.pair.answer);
+      return recalled.pair.answer;
+    }
+
+    const sources = twin ? await this.retrieveSources(twin.id, message) : [];
+    const system = this.buildSystemPrompt(persona, twin, sources, recalled?.pair);
+    const messages = this.buildMessages(message, history);
+
+    if (options.onToken) {
+      return this.provider.stream({ system, messages }, options.onToken);
+    }
+    return this.provider.complete({ system, messages });
+  }
+
+  // Accepts a slug ("steve-jobs"), a display name ("Steve Jobs") or an alias
+  private async findTwin(persona: string): Promise<DigitalTwin | undefined> {
+    try {
+      return await personaRegistry.getTwin(persona);
+    } catch (error) {
+      console.error("[ConversationManager] Could not load digital twins:", error);
+      return undefined;
+    }
+  }
+
+  private async recallAnswer(twinId: number, message: string): Promise<QaRecall | undefined> {
+    try {
+      return await qaService.findAnswer(twinId, message);
+    } catch (error) {
+      console.error("[ConversationManager] Q&A lookup failed:", error);
+      return undefined;
+    }
+  }
+
+  private async retrieveSources(twinId: number, message: string): Promise<RetrievedChunk[]> {
+    try {
+      return await knowledgeBase.retrieve(twinId, message);
+    } catch (error) {
+      console.error("[ConversationManager] Knowledge retrieval failed:", error);
+      return [];
+    }
+  }
+
+  buildSystemPrompt(persona: string, twin?: DigitalTwin, sources: RetrievedChunk[] = [], approved?: TwinQaPair): string {
+    const slug = slugify(persona);
+    const name = twin?.name || (persona.includes(" ") ? persona : titleFromSlug(slug));
+    const configuration = (twin?.configuration || {}) as Record<string, any>;
+
+    const lines = [
+      `You are ${name}${twin?.description ? `, ${twin.description}` : ""}.`,
+    ];
+    const notes = twin ? personaFromTwin(twin).prompt : undefined;
+    if (notes) {
+      lines.push(`Character notes: ${notes}`);
+    }
+    if (twin?.type) {
+      lines.push(`Background: ${twin.type}.`);
+    }
+    if (twin?.capabilities?.length) {
+      lines.push(`Your expertise includes: ${twin.capabilities.join(", ")}.`);
+    }
+    if (configuration.personality) {
+      lines.push(`Your personality is ${configuration.personality}.`);
+    }
+    // Only a reviewed profile is used; drafts wait for approval
+    const profile = twin ? activeProfile(twin) : undefined;
+    if (profile) {
+      if (profile.tone.descriptors.length) {
+        lines.push(`Your tone is ${profile.tone.descriptors.join(", ")}.`);
+      }
+      if (profile.signaturePhrases.length) {
+        lines.push(`Phrases you often use: ${profile.signaturePhrases.map((phrase) => `"${phrase}"`).join(", ")}.`);
+      }
+      if (profile.beliefs.length) {
+        lines.push("Views you have expressed:", ...profile.beliefs.map((belief) => `- ${belief}`));
+      }
+      if (profile.biography.length) {
+        lines.push("Facts about your life:", ...profile.biography.map((fact) => `- ${fact}`));
+      }
+    }
+    if (approved) {
+      lines.push(
+        "You have an approved answer to a very similar question. Answer with it as written, changing only what is needed to fit the question:",
+        `Q: ${approved.question}`,
+        `A: ${approved.answer}`
+      );
+    }
+    if (sources.length) {
+      lines.push(
+        "Ground your answer in the following excerpts from your own source material. Prefer them over general knowledge and do not contradict them:",
+        ...sources.map((source, i) => `[${i + 1}] ${source.text}`)
+      );
+    }
+    lines.push(
+      "Stay in character and speak in the first person, drawing on your own experiences and views.",
+      "If the conversation so far is relevant, build on it rather than repeating yourself.",
+      "Keep your response conversational and under 300 words."
+    );
+    return lines.join("\n");
+  }
+
+  private buildMessages(message: string, history: HistoryEntry[]): ChatMessage[] {
+    const recent = history.slice(-MAX_HISTORY_MESSAGES).map((entry) => ({
+      role: entry.role,
+      content: entry.content,
+    }));
+    return [...recent, { role: "user", content: message }];
   }
 }
 
@@ -108,7 +108,7 @@ console.log("DATABASE_URL for postgres.js (db.ts):", process.env.DATABASE_URL);
 
 const isLocal = process.env.DATABASE_URL?.includes("localhost");
 
-const client = postgres(process.env.DATABASE_URL || "", {
+export const client = postgres(process.env.DATABASE_URL || "", {
   ssl: isLocal ? false : { rejectUnauthorized: false },
   connect_timeout: 10,
 });
@@ -1,86 +1,244 @@
 import { voiceService } from './voice-service.js';
+import { conversationManager, titleFromSlug } from './conversation-manager.js';
+import { personaRegistry } from './persona-registry.js';
+import { assembleMp3, type AudioSegment, type SegmentTiming } from './audio-assembler.js';
+
+export type DebateTurnKind = 'opening' | 'position' | 'rebuttal' | 'summary' | 'closing';
 
 /**
- * Simple debate turn structure
+ * One spoken contribution. `respondingTo` is set for rebuttals.
  */
 export interface DebateTurn {
   speaker: string;
   text: string;
+  round: number;
+  kind: DebateTurnKind;
+  respondingTo?: string;
+}
+
+export interface DebatePosition {
+  speaker: string;
+  text: string;
+}
+
+export interface DebateRebuttal {
+  speaker: string;
+  respondingTo: string;
+  round: number;
+  text: string;
 }
 
 export interface DebateResult {
   topic: string;
+  speakers: string[];
+  moderator?: string;
+  rounds: number;
   turns: DebateTurn[];
+  positions: DebatePosition[];
+  rebuttals: DebateRebuttal[];
+  verdict: string;
   combinedText: string;
-  // Optional concatenated MP3 buffer (if audio synthesis enabled)
+  // Single MP3 stream for the whole debate (if audio synthesis enabled)
   audioBuffer?: Buffer;
+  // Where each turn sits in audioBuffer; `index` refers to `turns`
+  audioTimings?: SegmentTiming[];
+  audioDurationMs?: number;
 }
 
-// Canonical digital twins used for debates (can be expanded)
+// Canonical digital twins used for debates when none are requested
 const DEFAULT_SPEAKERS = [
   'Albert Einstein',
   'Steve Jobs'
 ];
 
-// Very lightweight heuristic response scaffolding; in real system replace with LLM pipeline
-function craftPerspective(speaker: string, topic: string, index: number): string {
-  const base = topic.trim();
-  switch (speaker) {
-    case 'Albert Einstein':
-      return `From a theoretical and systemic perspective, "${base}" demands that we examine fundamental assumptions, reduce them to first principles, then recompose them into models we can test. Practical progress emerges when abstraction meets empirical validation.`;
-    case 'Steve Jobs':
-      return `If we care about "${base}", we have to start with the user experience and work backwards to the technology. Focus. Eliminate the noise. What actually delights or liberates people here? Build that—relentlessly.`;
-    default:
-      return `${speaker} adds viewpoint #${index + 1} regarding "${base}" focusing on pragmatic trade‑offs and emergent possibilities.`;
-  }
-}
+const DEFAULT_MODERATOR = 'Debate Moderator';
+const MAX_ROUNDS = 10;
+// How many previous turns each speaker sees verbatim
+const TRANSCRIPT_WINDOW = 8;
 
 export interface GenerateDebateOptions {
   topic: string;
   speakers?: string[];
   includeAudio?: boolean; // synthesize MP3 using existing voiceService where possible
-  maxTurnsPerSpeaker?: number; // simple limit
+  rounds?: number; // round 1 states positions, later rounds are rebuttals
+  maxTurnsPerSpeaker?: number; // older name for rounds
+  moderator?: string | boolean; // true uses a neutral moderator persona
+  pauseMs?: number; // silence between turns in the audio
+  events?: DebateEvents;
+}
+
+/**
+ * Progress callbacks for callers that stream a debate as it is generated.
+ * `index` is the turn's position in DebateResult.turns.
+ */
+export interface DebateEvents {
+  onTurnStarted?(index: number, speaker: string, kind: DebateTurnKind, round: number): void;
+  onToken?(index: number, token: string): void;
+  onTurnCompleted?(index: number, turn: DebateTurn): void;
+  onAudioReady?(index: number, speaker: string, audio: Buffer): void;
+}
+
+/**
+ * Map requested speakers (display name, slug, alias or twin id) onto
+ * registered personas. Unknown names are kept as given so ad-hoc personas
+ * still work; ids of missing or archived twins are dropped.
+ */
+async function resolveSpeakers(requested: string[]): Promise<string[]> {
+  const resolved = await Promise.all(requested.map(async speaker => {
+    const value = String(speaker).trim();
+    if (!value) return '';
+    // Speakers may be given as twin ids, which win over a twin with that name
+    const persona =
+      (/^\d+$/.test(value) && (await personaRegistry.resolve(Number(value)))) ||
+      (await personaRegistry.resolve(value));
+    if (persona) return persona.name;
+    if (/^\d+$/.test(value)) return '';
+    return /^[a-z0-9]+(-[a-z0-9]+)+$/.test(value) ? titleFromSlug(value) : value;
+  }));
+  return Array.from(new Set(resolved.filter(Boolean)));
+}
+
+function formatTranscript(turns: DebateTurn[]): string {
+  if (!turns.length) return '(No one has spoken yet.)';
+  return turns
+    .slice(-TRANSCRIPT_WINDOW)
+    .map(turn => `${turn.speaker}: ${turn.text}`)
+    .join('\n\n');
+}
+
+// The instruction each speaker receives for their turn
+function buildTurnPrompt(
+  kind: DebateTurnKind,
+  topic: string,
+  speakers: string[],
+  turns: DebateTurn[],
+  round: number,
+  rounds: number,
+  respondingTo?: string
+): string {
+  const header = `You are taking part in a debate on: "${topic}". Participants: ${speakers.join(', ')}. This is round ${round} of ${rounds}.`;
+  const transcript = `Transcript so far:\n${formatTranscript(turns)}`;
+
+  switch (kind) {
+    case 'opening':
+      return `${header}\nAs the moderator, open the debate: frame the question, introduce each participant in one line and invite the first speaker. Do not take a side.`;
+    case 'position':
+      return `${header}\n${transcript}\n\nState your position on the topic in your own voice. Be specific and give your strongest reason. If others have already spoken, make clear where you differ. Keep it under 150 words.`;
+    case 'rebuttal':
+      return `${header}\n${transcript}\n\nRespond directly to ${respondingTo}'s latest argument: quote or paraphrase the point you are answering, explain where you agree or disagree, then sharpen your own position. Keep it under 150 words.`;
+    case 'summary':
+      return `${header}\n${transcript}\n\nAs the moderator, briefly summarize where each participant stands after this round and pose one sharper question for the next round. Do not take a side.`;
+    case 'closing':
+      return `${header}\n${transcript}\n\nAs the moderator, close the debate: summarize each participant's final position, name the strongest argument made, and give a short verdict on which case was more convincing and why.`;
+  }
+}
+
+function buildVerdictPrompt(topic: string, turns: DebateTurn[]): string {
+  return `You are judging a debate on: "${topic}".\nTranscript:\n${formatTranscript(turns)}\n\nIn under 120 words, give a neutral verdict: which case was more convincing and why.`;
+}
+
+async function synthesizeTurn(turn: DebateTurn): Promise<Buffer> {
+  try {
+    const result = await voiceService.synthesizeSpeech({ text: turn.text, persona: turn.speaker });
+    if (Buffer.isBuffer(result)) {
+      return result;
+    }
+  } catch (err) {
+    // Fail soft on audio for an individual turn
+    // eslint-disable-next-line no-console
+    console.error('Audio synthesis failed for', turn.speaker, err);
+  }
+  return Buffer.alloc(0);
 }
 
 export async function generateDebate(options: GenerateDebateOptions): Promise<DebateResult> {
   const {
     topic,
-    speakers = DEFAULT_SPEAKERS,
     includeAudio = false,
-    maxTurnsPerSpeaker = 1
+    moderator: moderatorOption = false
   } = options;
+  const rounds = Math.max(1, Math.min(MAX_ROUNDS, options.rounds ?? options.maxTurnsPerSpeaker ?? 2));
+  const speakers = await resolveSpeakers(options.speakers?.length ? options.speakers : DEFAULT_SPEAKERS);
+  if (speakers.length < 2) {
+    throw new Error('A debate needs at least two distinct speakers');
+  }
+  const moderator = moderatorOption === true
+    ? DEFAULT_MODERATOR
+    : typeof moderatorOption === 'string' && moderatorOption.trim()
+      ? moderatorOption.trim()
+      : undefined;
 
+  const events = options.events || {};
   const turns: DebateTurn[] = [];
-  for (let round = 0; round < maxTurnsPerSpeaker; round++) {
+  // Empty segments keep indexes aligned with turns; the assembler skips them
+  const segments: AudioSegment[] = [];
+
+  const speak = async (speaker: string, kind: DebateTurnKind, round: number, respondingTo?: string) => {
+    const index = turns.length;
+    const prompt = buildTurnPrompt(kind, topic, speakers, turns, round, rounds, respondingTo);
+    events.onTurnStarted?.(index, speaker, kind, round);
+    const text = await conversationManager.generateResponse(speaker, prompt, [], {
+      onToken: events.onToken ? token => events.onToken!(index, token) : undefined
+    });
+    const turn: DebateTurn = { speaker, text, round, kind };
+    if (respondingTo) turn.respondingTo = respondingTo;
+    turns.push(turn);
+    events.onTurnCompleted?.(index, turn);
+
+    if (includeAudio) {
+      const audio = await synthesizeTurn(turn);
+      segments.push({ speaker, audio, title: `${speaker} (${kind})` });
+      if (audio.length) events.onAudioReady?.(index, speaker, audio);
+    }
+    return turn;
+  };
+
+  if (moderator) {
+    await speak(moderator, 'opening', 1);
+  }
+
+  for (let round = 1; round <= rounds; round++) {
     for (let i = 0; i < speakers.length; i++) {
       const speaker = speakers[i];
-      turns.push({
-        speaker,
-        text: craftPerspective(speaker, topic, round * speakers.length + i)
-      });
+      if (round === 1) {
+        await speak(speaker, 'position', round);
+      } else {
+        // Answer whoever spoke last among the other participants
+        const previous = [...turns].reverse().find(t => t.speaker !== speaker && speakers.includes(t.speaker));
+        await speak(speaker, 'rebuttal', round, previous?.speaker || speakers[(i + speakers.length - 1) % speakers.length]);
+      }
+    }
+    if (moderator && round < rounds) {
+      await speak(moderator, 'summary', round);
     }
   }
 
+  let verdict: string;
+  if (moderator) {
+    verdict = (await speak(moderator, 'closing', rounds)).text;
+  } else {
+    verdict = await conversationManager.generateResponse(DEFAULT_MODERATOR, buildVerdictPrompt(topic, turns));
+  }
+
+  const positions = turns
+    .filter(t => t.kind === 'position')
+    .map(t => ({ speaker: t.speaker, text: t.text }));
+  const rebuttals = turns
+    .filter(t => t.kind === 'rebuttal')
+    .map(t => ({ speaker: t.speaker, respondingTo: t.respondingTo!, round: t.round, text: t.text }));
+
   let audioBuffer: Buffer | undefined;
+  let audioTimings: SegmentTiming[] | undefined;
+  let audioDurationMs: number | undefined;
   if (includeAudio) {
-    const buffers: Buffer[] = [];
-    for (const turn of turns) {
-      try {
-        const audio = await voiceService.synthesizeSpeech({ text: turn.text, persona: turn.speaker });
-        if (Buffer.isBuffer(audio)) {
-          buffers.push(audio);
-        }
-      } catch (err) {
-        // Fail soft on audio for an individual turn
-        // eslint-disable-next-line no-console
-        console.error('Audio synthesis failed for', turn.speaker, err);
-      }
-    }
-    if (buffers.length) {
-      audioBuffer = Buffer.concat(buffers);
+    const assembled = assembleMp3(segments, { silenceMs: options.pauseMs, title: `Debate: ${topic}` });
+    if (assembled.timings.length) {
+      audioBuffer = assembled.buffer;
+      audioTimings = assembled.timings;
+      audioDurationMs = assembled.durationMs;
     }
   }
 
   const combinedText = turns.map(t => `*${t.speaker}:* ${t.text}`).join('\n');
-  return { topic, turns, combinedText, audioBuffer };
+  return { topic, speakers, moderator, rounds, turns, positions, rebuttals, verdict, combinedText, audioBuffer, audioTimings, audioDurationMs };
 }
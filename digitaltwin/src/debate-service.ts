@@ -0,0 +1,187 @@
+import { EventEmitter } from 'events';
+import { generateDebate, type DebateResult, type GenerateDebateOptions } from './debate-generator.js';
+import { storage } from './storage.js';
+import type { Conversation } from './schema.js';
+
+export type DebateStatus = 'running' | 'done' | 'failed';
+
+export interface DebateRecord {
+  id: number;
+  topic: string;
+  status: DebateStatus;
+  source: string;
+  participants: string[];
+  moderator?: string;
+  rounds: number;
+  transcript: string;
+  turns: DebateResult['turns'];
+  positions: DebateResult['positions'];
+  rebuttals: DebateResult['rebuttals'];
+  verdict?: string;
+  hasAudio: boolean;
+  audioTimings?: DebateResult['audioTimings'];
+  audioDurationMs?: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Keep generated audio for recent debates only; transcripts live in the database
+const MAX_CACHED_AUDIO = 20;
+
+/**
+ * Runs debates and stores each one as a `conversations` row with
+ * metadata.kind = "debate", so Slack and HTTP clients share one history.
+ * Emits "debate_updated" with the stored conversation whenever it changes.
+ */
+export class DebateService extends EventEmitter {
+  private audio = new Map<number, Buffer>();
+
+  /**
+   * Create the debate record and generate it in the background.
+   * Resolves as soon as the record exists.
+   */
+  async startDebate(options: GenerateDebateOptions, source = 'api'): Promise<Conversation> {
+    const conversation = await this.createRecord(options, source);
+    this.generate(conversation, options).catch(error => {
+      console.error(`Debate ${conversation.id} failed:`, error);
+    });
+    return conversation;
+  }
+
+  // Create, generate and persist a debate, resolving once it is complete
+  async runDebate(options: GenerateDebateOptions, source = 'api'): Promise<{ conversation: Conversation; debate: DebateResult }> {
+    const conversation = await this.createRecord(options, source);
+    const debate = await this.generate(conversation, options);
+    return { conversation, debate };
+  }
+
+  async getDebate(id: number): Promise<DebateRecord | undefined> {
+    const conversation = await storage.getConversation(id);
+    if (!conversation || metadataOf(conversation).kind !== 'debate') return undefined;
+    return toDebateRecord(conversation, this.audio.has(id));
+  }
+
+  async listDebates(): Promise<DebateRecord[]> {
+    const conversations = await storage.getConversations();
+    return conversations
+      .filter(conversation => metadataOf(conversation).kind === 'debate')
+      .map(conversation => toDebateRecord(conversation, this.audio.has(conversation.id)))
+      .sort((a, b) => b.id - a.id);
+  }
+
+  /**
+   * Mark debates left "running" by a previous process as failed; their
+   * generation died with it and nothing will ever finish them.
+   */
+  async failInterruptedDebates(): Promise<number> {
+    const conversations = await storage.getConversations();
+    const interrupted = conversations.filter(conversation => {
+      const metadata = metadataOf(conversation);
+      return metadata.kind === 'debate' && metadata.status === 'running';
+    });
+
+    for (const conversation of interrupted) {
+      const failed = await storage.updateConversation(conversation.id, {
+        metadata: { ...metadataOf(conversation), status: 'failed', error: 'Interrupted by a server restart' }
+      });
+      if (failed) this.emit('debate_updated', failed);
+    }
+    if (interrupted.length) console.log(`[DebateService] Marked ${interrupted.length} interrupted debate(s) as failed`);
+    return interrupted.length;
+  }
+
+  getAudio(id: number): Buffer | undefined {
+    return this.audio.get(id);
+  }
+
+  private async createRecord(options: GenerateDebateOptions, source: string): Promise<Conversation> {
+    const conversation = await storage.createConversation({
+      title: `Debate: ${options.topic}`,
+      participants: options.speakers || [],
+      topic: options.topic,
+      transcript: '',
+      metadata: {
+        kind: 'debate',
+        status: 'running',
+        source,
+        rounds: options.rounds,
+        includeAudio: !!options.includeAudio
+      }
+    });
+    this.emit('debate_updated', conversation);
+    return conversation;
+  }
+
+  private async generate(conversation: Conversation, options: GenerateDebateOptions): Promise<DebateResult> {
+    const baseMetadata = metadataOf(conversation);
+    try {
+      const debate = await generateDebate(options);
+      if (debate.audioBuffer) this.cacheAudio(conversation.id, debate.audioBuffer);
+
+      const updated = await storage.updateConversation(conversation.id, {
+        participants: debate.moderator ? [...debate.speakers, debate.moderator] : debate.speakers,
+        transcript: debate.combinedText,
+        metadata: {
+          ...baseMetadata,
+          status: 'done',
+          rounds: debate.rounds,
+          moderator: debate.moderator,
+          turns: debate.turns,
+          positions: debate.positions,
+          rebuttals: debate.rebuttals,
+          verdict: debate.verdict,
+          audioTimings: debate.audioTimings,
+          audioDurationMs: debate.audioDurationMs,
+          completedAt: new Date().toISOString()
+        }
+      });
+      if (updated) this.emit('debate_updated', updated);
+      return debate;
+    } catch (error: any) {
+      const failed = await storage.updateConversation(conversation.id, {
+        metadata: { ...baseMetadata, status: 'failed', error: error?.message || String(error) }
+      });
+      if (failed) this.emit('debate_updated', failed);
+      throw error;
+    }
+  }
+
+  private cacheAudio(id: number, buffer: Buffer) {
+    this.audio.set(id, buffer);
+    while (this.audio.size > MAX_CACHED_AUDIO) {
+      const oldest = this.audio.keys().next().value;
+      this.audio.delete(oldest);
+    }
+  }
+}
+
+function metadataOf(conversation: Conversation): Record<string, any> {
+  return (conversation.metadata as Record<string, any>) || {};
+}
+
+function toDebateRecord(conversation: Conversation, hasAudio: boolean): DebateRecord {
+  const metadata = metadataOf(conversation);
+  return {
+    id: conversation.id,
+    topic: conversation.topic,
+    status: metadata.status,
+    source: metadata.source,
+    participants: conversation.participants,
+    moderator: metadata.moderator,
+    rounds: metadata.rounds,
+    transcript: conversation.transcript,
+    turns: metadata.turns || [],
+    positions: metadata.positions || [],
+    rebuttals: metadata.rebuttals || [],
+    verdict: metadata.verdict,
+    hasAudio,
+    audioTimings: metadata.audioTimings,
+    audioDurationMs: metadata.audioDurationMs,
+    error: metadata.error,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt
+  };
+}
+
+export const debateService = new DebateService();
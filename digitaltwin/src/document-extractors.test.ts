@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DOCUMENT_EXTRACTORS, DocumentError, detectFormat } from './document-extractors.js';
+
+// A minimal PDF with one line of Helvetica text per page
+function pdfWithPages(lines: string[]): Buffer {
+  const pageIds = lines.map((_, i) => 4 + i * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${lines.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+  lines.forEach((line, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${line}) Tj ET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = body.length;
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(body, 'latin1');
+}
+
+describe('pdf extractor', () => {
+  it('returns the text of every page without page markers', async () => {
+    const result = await DOCUMENT_EXTRACTORS.pdf.extract(pdfWithPages(['First page text', 'Second page text']));
+    assert.equal(result.metadata?.pages, 2);
+    assert.match(result.text, /First page text/);
+    assert.match(result.text, /Second page text/);
+    assert.doesNotMatch(result.text, /--\s*\d+ of \d+\s*--/);
+  });
+
+  it('reports a corrupt PDF', async () => {
+    await assert.rejects(
+      DOCUMENT_EXTRACTORS.pdf.extract(Buffer.from('%PDF-1.4\nnot really a pdf')),
+      (error: unknown) => error instanceof DocumentError && error.code === 'corrupt_document'
+    );
+  });
+});
+
+describe('detectFormat', () => {
+  it('recognises a PDF by its signature whatever it is called', () => {
+    assert.equal(detectFormat(pdfWithPages(['Hi']), 'application/octet-stream', 'upload.bin'), 'pdf');
+  });
+});
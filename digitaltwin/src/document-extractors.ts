@@ -0,0 +1,318 @@
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+
+export type DocumentFormat = 'docx' | 'pdf' | 'markdown' | 'text' | 'html' | 'srt' | 'vtt' | 'json-qa';
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Every supported format implements this; DocumentService picks one by detected format
+export interface DocumentExtractor {
+  format: DocumentFormat;
+  extract(buffer: Buffer): Promise<ExtractedDocument>;
+}
+
+export type DocumentErrorCode = 'unsupported_format' | 'corrupt_document' | 'empty_document';
+
+// Carries an HTTP status so routes can report ingestion problems directly
+export class DocumentError extends Error {
+  constructor(message: string, public code: DocumentErrorCode, public status = code === 'unsupported_format' ? 415 : 422) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  docx: 'docx',
+  pdf: 'pdf',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  html: 'html',
+  htm: 'html',
+  srt: 'srt',
+  vtt: 'vtt',
+  json: 'json-qa'
+};
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/pdf': 'pdf',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/x-subrip': 'srt',
+  'text/srt': 'srt',
+  'text/vtt': 'vtt',
+  'application/json': 'json-qa'
+};
+
+const SRT_CUE = /^\d+\s*\r?\n\d{2}:\d{2}:\d{2}[,.]\d{3}\s*-->/m;
+
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+function looksBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+function parsesAsJson(buffer: Buffer): boolean {
+  try {
+    JSON.parse(decodeText(buffer));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Work out the format from magic bytes first, then content sniffing for the
+ * text formats, using the client's MIME type and file extension as hints.
+ * Binary formats are never trusted on the client's word alone.
+ */
+export function detectFormat(buffer: Buffer, mimeType = '', filename = ''): DocumentFormat {
+  const extension = filename.toLowerCase().split('.').pop() || '';
+  const hinted = MIME_TYPES[mimeType.split(';')[0].trim().toLowerCase()] || EXTENSIONS[extension];
+
+  if (buffer.length === 0) {
+    throw new DocumentError('The uploaded file is empty', 'empty_document');
+  }
+  if (buffer.toString('latin1', 0, 5) === '%PDF-') return 'pdf';
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x504b0304) {
+    // DOCX is a ZIP whose entry names are stored uncompressed
+    if (buffer.includes('word/document.xml', 0, 'latin1')) return 'docx';
+    throw new DocumentError('ZIP archives are only supported as .docx Word documents', 'unsupported_format');
+  }
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0xd0cf11e0) {
+    throw new DocumentError('Legacy .doc files are not supported; save the document as .docx', 'unsupported_format');
+  }
+  if (hinted === 'pdf' || hinted === 'docx') {
+    throw new DocumentError(`File is labelled as ${hinted.toUpperCase()} but its contents do not match`, 'corrupt_document');
+  }
+  if (looksBinary(buffer)) {
+    throw new DocumentError(`Unsupported binary file type${mimeType ? ` (${mimeType})` : ''}`, 'unsupported_format');
+  }
+
+  const head = decodeText(buffer.subarray(0, 4096)).trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (SRT_CUE.test(head)) return 'srt';
+  // Notes and Markdown can open with a bracket; a text label wins over sniffing
+  const textHinted = hinted === 'text' || hinted === 'markdown';
+  if (hinted === 'json-qa' || (!textHinted && /^[[{]/.test(head) && parsesAsJson(buffer))) return 'json-qa';
+  if (hinted === 'html' || /^<(!doctype html|html|head|body)\b/i.test(head)) return 'html';
+  if (hinted === 'srt' || hinted === 'vtt' || hinted === 'markdown') return hinted;
+  return 'text';
+}
+
+const docxExtractor: DocumentExtractor = {
+  format: 'docx',
+  async extract(buffer) {
+    try {
+      const result = await mammoth.extractRawText({ buffer });
+      return { format: 'docx', text: result.value };
+    } catch (error) {
+      console.error('Error processing Word document:', error);
+      throw new DocumentError('The Word document could not be read; it may be corrupt', 'corrupt_document');
+    }
+  }
+};
+
+const pdfExtractor: DocumentExtractor = {
+  format: 'pdf',
+  async extract(buffer) {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+    try {
+      // No page joiner, so the text carries no "-- 1 of 3 --" page markers
+      const result = await parser.getText({ pageJoiner: '' });
+      return { format: 'pdf', text: result.text, metadata: { pages: result.total } };
+    } catch (error) {
+      console.error('Error processing PDF document:', error);
+      throw new DocumentError('The PDF could not be read; it may be corrupt or password protected', 'corrupt_document');
+    } finally {
+      await parser.destroy().catch(() => undefined);
+    }
+  }
+};
+
+const textExtractor: DocumentExtractor = {
+  format: 'text',
+  async extract(buffer) {
+    return { format: 'text', text: decodeText(buffer) };
+  }
+};
+
+const markdownExtractor: DocumentExtractor = {
+  format: 'markdown',
+  async extract(buffer) {
+    const text = decodeText(buffer)
+      .replace(/^```.*$/gm, '') // keep fenced code, drop the fences
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links keep their text
+      .replace(/^\s{0,3}#{1,6}\s+/gm, '') // headings
+      .replace(/^\s{0,3}>\s?/gm, '') // block quotes
+      .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '') // list markers
+      .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, '') // horizontal rules
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+      .replace(/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, '$1$2') // leave snake_case alone
+      .replace(/`([^`]+)`/g, '$1');
+    return { format: 'markdown', text };
+  }
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const htmlExtractor: DocumentExtractor = {
+  format: 'html',
+  async extract(buffer) {
+    const html = decodeText(buffer);
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim();
+    const text = decodeEntities(
+      html
+        .replace(/<(script|style|noscript|template|head)\b[\s\S]*?<\/\1>/gi, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|article|li|h[1-6]|tr|blockquote)>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '')
+    )
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n\s*\n\s*/g, '\n\n');
+    return { format: 'html', text, metadata: title ? { title: decodeEntities(title) } : undefined };
+  }
+};
+
+// Consecutive cues from the same speaker become one paragraph
+function joinCues(cues: { speaker?: string; text: string }[]): string {
+  const paragraphs: string[] = [];
+  let current: { speaker?: string; lines: string[] } | null = null;
+  for (const cue of cues) {
+    if (!cue.text) continue;
+    if (current && (cue.speaker === current.speaker || !cue.speaker)) {
+      current.lines.push(cue.text);
+      continue;
+    }
+    if (current) paragraphs.push(formatParagraph(current));
+    current = { speaker: cue.speaker, lines: [cue.text] };
+  }
+  if (current) paragraphs.push(formatParagraph(current));
+  return paragraphs.join('\n\n');
+}
+
+function formatParagraph(paragraph: { speaker?: string; lines: string[] }): string {
+  const text = paragraph.lines.join(' ');
+  return paragraph.speaker ? `${paragraph.speaker}: ${text}` : text;
+}
+
+// "SPEAKER: text" or "- text" (a dash marks a change of speaker in subtitles)
+function splitSpeaker(line: string): { speaker?: string; text: string } {
+  const labelled = line.match(/^([A-Z][\w .'-]{0,40}):\s+(.*)$/);
+  if (labelled) return { speaker: labelled[1].trim(), text: labelled[2].trim() };
+  return { text: line.replace(/^-\s*/, '').trim() };
+}
+
+const srtExtractor: DocumentExtractor = {
+  format: 'srt',
+  async extract(buffer) {
+    const blocks = decodeText(buffer).replace(/\r\n/g, '\n').split(/\n\s*\n/);
+    const cues = blocks.flatMap(block => {
+      const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+      const timing = lines.findIndex(line => line.includes('-->'));
+      if (timing === -1) return [];
+      const text = lines.slice(timing + 1).join(' ').replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '');
+      return [splitSpeaker(text)];
+    });
+    return { format: 'srt', text: joinCues(cues), metadata: { cues: cues.length } };
+  }
+};
+
+const vttExtractor: DocumentExtractor = {
+  format: 'vtt',
+  async extract(buffer) {
+    const blocks = decodeText(buffer).replace(/\r\n/g, '\n').split(/\n\s*\n/);
+    const cues = blocks.flatMap(block => {
+      const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+      const timing = lines.findIndex(line => line.includes('-->'));
+      // Header, NOTE, STYLE and REGION blocks have no timing line
+      if (timing === -1) return [];
+      const raw = lines.slice(timing + 1).join(' ');
+      const voice = raw.match(/<v(?:\.[\w.]+)?\s+([^>]+)>/);
+      const text = decodeEntities(raw.replace(/<[^>]+>/g, '')).trim();
+      return [voice ? { speaker: voice[1].trim(), text } : splitSpeaker(text)];
+    });
+    return { format: 'vtt', text: joinCues(cues), metadata: { cues: cues.length } };
+  }
+};
+
+const QUESTION_KEYS = ['question', 'q', 'prompt', 'query'];
+const ANSWER_KEYS = ['answer', 'a', 'response', 'completion', 'reply'];
+
+function pick(entry: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of Object.keys(entry)) {
+    if (keys.includes(key.toLowerCase()) && typeof entry[key] === 'string') {
+      return (entry[key] as string).trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Q&A exports: an array of pairs, or an object holding one under a common
+ * key. The output uses the "Q1: / A1:" layout the twin builder already parses.
+ */
+const jsonQaExtractor: DocumentExtractor = {
+  format: 'json-qa',
+  async extract(buffer) {
+    let data: any;
+    try {
+      data = JSON.parse(decodeText(buffer));
+    } catch {
+      throw new DocumentError('The JSON file could not be parsed', 'corrupt_document');
+    }
+
+    const entries = Array.isArray(data)
+      ? data
+      : ['qa', 'pairs', 'items', 'questions', 'data', 'entries'].map(key => data?.[key]).find(Array.isArray);
+    if (!entries) {
+      throw new DocumentError('JSON uploads must be an array of question/answer pairs', 'unsupported_format');
+    }
+
+    const pairs = entries
+      .filter((entry: unknown) => entry && typeof entry === 'object')
+      .map((entry: Record<string, unknown>) => ({ question: pick(entry, QUESTION_KEYS), answer: pick(entry, ANSWER_KEYS) }))
+      .filter((pair: { question?: string; answer?: string }) => pair.question && pair.answer);
+    if (!pairs.length) {
+      throw new DocumentError('No question/answer pairs were found in the JSON file', 'empty_document');
+    }
+
+    const text = pairs.map((pair: { question: string; answer: string }, i: number) => `Q${i + 1}: ${pair.question}\nA${i + 1}: ${pair.answer}`).join('\n\n');
+    return { format: 'json-qa', text, metadata: { pairs: pairs.length } };
+  }
+};
+
+export const DOCUMENT_EXTRACTORS: Record<DocumentFormat, DocumentExtractor> = {
+  docx: docxExtractor,
+  pdf: pdfExtractor,
+  markdown: markdownExtractor,
+  text: textExtractor,
+  html: htmlExtractor,
+  srt: srtExtractor,
+  vtt: vttExtractor,
+  'json-qa': jsonQaExtractor
+};
@@ -1,92 +1,226 @@
 import { promises as fs } from 'fs';
-import mammoth from 'mammoth';
 import { storage } from './storage.js';
-import type { InsertDigitalTwin } from './schema.js';
+import { knowledgeBase } from './knowledge-base.js';
+import { personaRegistry } from './persona-registry.js';
+import { personaProfiles, profileStateOf } from './persona-profile.js';
+import { qaService } from './qa-service.js';
+import { twinRevisionService } from './twin-revisions.js';
+import { DOCUMENT_EXTRACTORS, DocumentError, detectFormat, type ExtractedDocument } from './document-extractors.js';
+import type { DigitalTwin, InsertDigitalTwin, InsertTwinDocument, TwinChangeType, TwinDocument } from './schema.js';
+
+export interface IngestOptions {
+  changedBy?: string;
+  fileName?: string;
+  format?: string;
+  // Set these to change them on a twin that already exists; a refresh
+  // otherwise keeps the twin's own description and status
+  description?: string;
+  status?: string;
+  // Reports when analysis and knowledge indexing start, for job progress
+  onStage?: (stage: 'analyzing' | 'indexing') => void;
+}
 
 export class DocumentService {
-  async processWordDocument(file: Express.Multer.File): Promise<string> {
-    try {
-      const result = await mammoth.extractRawText({ buffer: file.buffer });
-      console.log('Processing document:', file.originalname);
-      console.log('Extracted content preview:', result.value.substring(0, 200));
-      return result.value;
-    } catch (error) {
-      console.error('Error processing Word document:', error);
-      throw new Error('Failed to process Word document');
+  /**
+   * Detect the upload's format and extract its plain text. Throws a
+   * DocumentError for unsupported, corrupt or empty files.
+   */
+  async extractDocument(file: Pick<Express.Multer.File, 'buffer' | 'mimetype' | 'originalname'>): Promise<ExtractedDocument> {
+    const format = detectFormat(file.buffer, file.mimetype, file.originalname);
+    console.log(`Processing ${format} document:`, file.originalname);
+    const extracted = await DOCUMENT_EXTRACTORS[format].extract(file.buffer);
+
+    const text = extracted.text
+      .replace(/\r\n/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    if (!text) {
+      throw new DocumentError(
+        format === 'pdf'
+          ? 'The PDF contains no extractable text; scanned PDFs need OCR first'
+          : 'No text could be extracted from the document',
+        'empty_document'
+      );
     }
+    console.log('Extracted content preview:', text.substring(0, 200));
+    return { ...extracted, text };
   }
 
-  async createDigitalTwin(content: string, name: string): Promise<void> {
+  /**
+   * Build or refresh a twin from extracted text. The text is stored as one of
+   * the twin's documents and the twin is re-derived from its whole corpus.
+   */
+  async createDigitalTwin(content: string, name: string, options: IngestOptions = {}): Promise<DigitalTwin> {
     console.log(`Creating digital twin for ${name}`);
-    const { description, fullContent } = this.extractContent(content);
+    options.onStage?.('analyzing');
+    const { description } = this.extractContent(content);
     console.log('Extracted description:', description);
 
-    const capabilities = this.extractCapabilities(content);
-    console.log('Extracted capabilities:', capabilities);
-
     // Configure voice settings based on persona
-    const voiceSettings = this.getVoiceSettingsForPersona(name);
+    const existing = await personaRegistry.getTwin(name);
+    const voiceSettings = this.getVoiceSettingsForPersona(existing);
 
     const twin: InsertDigitalTwin = {
       name,
-      description,
-      type: "Historical Figure",
-      status: "active",
-      avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(name)}`,
-      capabilities,
+      description: options.description ?? existing?.description ?? description,
+      type: existing?.type || "Historical Figure",
+      status: options.status ?? existing?.status ?? "active",
+      avatar: existing?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(name)}`,
+      capabilities: existing?.capabilities || [],
       configuration: {
-        personality: this.determinePersonality(content),
+        ...((existing?.configuration as Record<string, any>) || {}),
         ...voiceSettings
       }
     };
 
-    await storage.createDigitalTwin(twin);
-    console.log(`Digital twin created successfully for ${name}`);
+    // Uploading material for a registered persona updates its twin instead of duplicating it
+    const created = existing
+      ? (await storage.updateDigitalTwin(existing.id, twin)) || existing
+      : await storage.createDigitalTwin(twin);
+    personaRegistry.invalidate();
+    console.log(`Digital twin ${existing ? 'updated' : 'created'} successfully for ${name}`);
+
+    await this.saveDocument(created.id, content, options);
+    return this.refreshFromCorpus(created, existing ? 'knowledge' : 'create', {
+      changedBy: options.changedBy,
+      note: `Processed uploaded document for ${name}`,
+      onStage: options.onStage
+    });
+  }
+
+  // Append a document to an existing twin; undefined if the twin does not exist
+  async addDocument(twinId: number, content: string, options: IngestOptions = {}): Promise<DigitalTwin | undefined> {
+    options.onStage?.('analyzing');
+    const twin = await storage.getDigitalTwin(twinId);
+    if (!twin) return undefined;
+
+    const document = await this.saveDocument(twinId, content, options);
+    return this.refreshFromCorpus(twin, 'knowledge', {
+      changedBy: options.changedBy,
+      note: `Added document ${document.fileName}`,
+      onStage: options.onStage
+    });
+  }
+
+  // Remove one document and re-derive the twin from what is left
+  async removeDocument(twinId: number, documentId: number, changedBy = 'api'): Promise<DigitalTwin | undefined> {
+    const twin = await storage.getDigitalTwin(twinId);
+    const document = (await storage.getTwinDocuments(twinId)).find(entry => entry.id === documentId);
+    if (!twin || !document) return undefined;
+
+    await storage.deleteTwinDocument(twinId, documentId);
+    return this.refreshFromCorpus(twin, 'knowledge', {
+      changedBy,
+      note: `Removed document ${document.fileName}`
+    });
   }
 
-  private determinePersonality(content: string): string {
-    const lowerContent = content.toLowerCase();
-    if (lowerContent.includes('innovative') || lowerContent.includes('creative')) {
-      return 'innovative';
-    } else if (lowerContent.includes('analytical') || lowerContent.includes('logical')) {
-      return 'analytical';
-    } else if (lowerContent.includes('visionary') || lowerContent.includes('leader')) {
-      return 'visionary';
+  async listDocuments(twinId: number): Promise<TwinDocument[]> {
+    return storage.getTwinDocuments(twinId);
+  }
+
+  /**
+   * Rebuild the knowledge index of every twin from its stored documents.
+   * Runs at startup when the vector store keeps nothing between restarts.
+   * Returns the number of twins indexed.
+   */
+  async reindexAll(): Promise<number> {
+    let indexed = 0;
+    for (const twin of await storage.getDigitalTwins()) {
+      const documents = await storage.getTwinDocuments(twin.id);
+      if (!documents.length) continue;
+      try {
+        await knowledgeBase.indexTwin(twin.id, this.knowledgeText(documents));
+        indexed++;
+      } catch (error) {
+        console.error(`Failed to reindex knowledge for ${twin.name}:`, error);
+      }
     }
-    return 'balanced';
+    console.log(`[KnowledgeBase] Reindexed ${indexed} twin(s) from stored documents`);
+    return indexed;
   }
 
-  private getVoiceSettingsForPersona(name: string) {
-    const lowerName = name.toLowerCase();
-    const settings = {
-      voice_id: "21m00Tcm4TlvDq8ikWAM",
-      voice_settings: {
+  private async saveDocument(twinId: number, content: string, options: IngestOptions): Promise<TwinDocument> {
+    const document = await storage.createTwinDocument({
+      twinId,
+      fileName: options.fileName || 'document.txt',
+      format: options.format || 'text',
+      content,
+      addedBy: options.changedBy || 'upload'
+    } as InsertTwinDocument);
+    await qaService.importFromDocument(twinId, document.id, content);
+    return document;
+  }
+
+  /**
+   * Draft a new persona profile from all of the twin's documents, re-index
+   * the combined material and record a revision. Capabilities and the
+   * personality label change only when the draft is approved.
+   */
+  private async refreshFromCorpus(
+    twin: DigitalTwin,
+    changeType: TwinChangeType,
+    context: { changedBy?: string; note?: string; onStage?: IngestOptions['onStage'] }
+  ): Promise<DigitalTwin> {
+    const documents = await storage.getTwinDocuments(twin.id);
+    const corpus = documents.map(document => document.content).join('\n\n');
+
+    const personas = await personaRegistry.list();
+    const profile = await personaProfiles.extract(corpus, { personas, documentCount: documents.length });
+    console.log(`Drafted profile for ${twin.name} from ${documents.length} document(s):`, profile.expertise.map(entry => entry.name));
+
+    let result = (await storage.updateDigitalTwin(twin.id, {
+      metadata: {
+        ...((twin.metadata as Record<string, any>) || {}),
+        profile: { ...profileStateOf(twin), draft: profile }
+      }
+    } as Partial<InsertDigitalTwin>)) || twin;
+    personaRegistry.invalidate();
+
+    // Index the full source material so answers can be grounded in it
+    context.onStage?.('indexing');
+    try {
+      const chunkCount = await knowledgeBase.indexTwin(twin.id, this.knowledgeText(documents));
+      const updated = await storage.updateDigitalTwin(twin.id, {
+        metadata: {
+          ...((result.metadata as Record<string, any>) || {}),
+          knowledge: { chunkCount, documentCount: documents.length, indexedAt: new Date().toISOString() }
+        }
+      } as Partial<InsertDigitalTwin>);
+      personaRegistry.invalidate();
+      result = updated || result;
+    } catch (error) {
+      console.error(`Failed to index knowledge for ${twin.name}:`, error);
+    }
+
+    try {
+      await twinRevisionService.record(result, changeType, {
+        changedBy: context.changedBy || 'upload',
+        note: context.note
+      });
+    } catch (error) {
+      console.error(`Failed to record revision for ${twin.name}:`, error);
+    }
+    return result;
+  }
+
+  // The material a twin's knowledge index is built from
+  private knowledgeText(documents: TwinDocument[]): string {
+    return documents.map(document => this.extractContent(document.content).fullContent).join('\n\n');
+  }
+
+  private getVoiceSettingsForPersona(twin?: DigitalTwin) {
+    const configuration = (twin?.configuration as Record<string, any>) || {};
+    return {
+      voice_id: configuration.voice_id || "21m00Tcm4TlvDq8ikWAM",
+      voice_settings: configuration.voice_settings || {
         stability: 0.75,
         similarityBoost: 0.75,
         style: 0.5,
         speakerBoost: true
       }
     };
-
-    // Customize voice settings based on persona
-    if (lowerName.includes('leonardo')) {
-      settings.voice_id = "ThT5KcBeYPX3keUQqHPh"; // Deep, thoughtful voice
-      settings.voice_settings.stability = 0.8;
-      settings.voice_settings.similarityBoost = 0.7;
-      settings.voice_settings.style = 0.4;
-    } else if (lowerName.includes('jobs')) {
-      settings.voice_id = "AZnzlk1XvdvUeBnXmlld"; // Dynamic, passionate voice
-      settings.voice_settings.stability = 0.6;
-      settings.voice_settings.similarityBoost = 0.8;
-      settings.voice_settings.style = 0.6;
-    } else if (lowerName.includes('einstein')) {
-      settings.voice_id = "VR6AewLTigWG4xSOukaG"; // Wise, measured voice
-      settings.voice_settings.stability = 0.85;
-      settings.voice_settings.similarityBoost = 0.7;
-      settings.voice_settings.style = 0.3;
-    }
-
-    return settings;
   }
 
   private extractContent(content: string): { description: string; fullContent: string } {
@@ -125,62 +259,6 @@ export class DocumentService {
     };
   }
 
-  private extractCapabilities(content: string): string[] {
-    const capabilities = new Set<string>();
-
-    // Enhanced persona-specific capability mappings
-    const personaCapabilities: Record<string, string[]> = {
-      "walt disney": ["Creativity", "Innovation", "Storytelling", "Leadership", "Entertainment"],
-      "leonardo da vinci": ["Innovation", "Art", "Engineering", "Research", "Design", "Design Thinking"],
-      "steve jobs": ["Innovation", "Product Development", "Design", "Leadership", "Strategic Thinking"],
-      "emad mostaque": ["Artificial Intelligence", "Technical Vision", "Leadership", "Innovation", "Strategic Thinking"],
-      "einstein": ["Innovation", "Research", "Problem Solving", "Technical Vision", "Physics"],
-      "elon musk": ["Innovation", "Strategic Thinking", "Product Development", "Technical Vision", "Entrepreneurship"],
-      "fei-fei li": ["Artificial Intelligence", "Research", "Technical Vision", "Innovation", "Computer Vision"],
-      "tim brown": ["Design Thinking", "Creativity", "Innovation", "Design", "User-Centered Design", "Prototyping"],
-      "ideo": ["Design Thinking", "Innovation", "Creativity", "User-Centered Design", "Prototyping"]
-    };
-
-    // Add capabilities based on persona name and content
-    const lowerContent = content.toLowerCase();
-    Object.entries(personaCapabilities).forEach(([persona, caps]) => {
-      if (lowerContent.includes(persona)) {
-        caps.forEach(cap => capabilities.add(cap));
-      }
-    });
-
-    // Enhanced keyword-based capability detection
-    const keywordCapabilities: Record<string, string[]> = {
-      "research": ["Research", "Innovation"],
-      "leadership": ["Leadership", "Strategic Thinking"],
-      "innovation": ["Innovation", "Problem Solving", "Design Thinking"],
-      "technology": ["Technical Vision", "Innovation"],
-      "artificial intelligence": ["Artificial Intelligence", "Technical Vision"],
-      "ai": ["Artificial Intelligence", "Technical Vision"],
-      "design": ["Design", "Innovation", "Design Thinking", "Creativity"],
-      "creativity": ["Creativity", "Innovation", "Design Thinking"],
-      "engineering": ["Engineering", "Technical Vision", "Innovation"],
-      "product": ["Product Development", "Innovation", "Design Thinking"],
-      "entrepreneur": ["Entrepreneurship", "Strategic Thinking", "Innovation"],
-      "vision": ["Technical Vision", "Strategic Thinking", "Creativity"],
-      "art": ["Art", "Creativity", "Innovation", "Design Thinking"],
-      "science": ["Research", "Technical Vision", "Innovation"],
-      "brainstorming": ["Creativity", "Innovation", "Design Thinking"],
-      "prototype": ["Design Thinking", "Innovation", "Product Development"],
-      "user experience": ["Design", "Design Thinking", "Innovation"],
-      "user centered": ["Design Thinking", "Innovation", "Design"],
-      "iteration": ["Design Thinking", "Innovation", "Product Development"],
-      "ideation": ["Creativity", "Innovation", "Design Thinking"]
-    };
-
-    Object.entries(keywordCapabilities).forEach(([keyword, caps]) => {
-      if (lowerContent.includes(keyword)) {
-        caps.forEach(cap => capabilities.add(cap));
-      }
-    });
-
-    return Array.from(capabilities);
-  }
 }
 
 export const documentService = new DocumentService();
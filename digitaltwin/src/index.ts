@@ -1,6 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes.js";
-import { registerSlackRoutes } from './slack-integration.js';
+import { captureSlackRawBody, registerSlackRoutes } from './slack-integration.js';
 import * as dotenv from 'dotenv';
 import net from 'net';
 import { exec } from 'child_process';
@@ -8,6 +8,10 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs';
 import { db, initializeConnection, checkTablesExist, initializeTables } from './db.js';
+import { taskWorker } from './task-worker.js';
+import { knowledgeBase } from './knowledge-base.js';
+import { documentService } from './document-service.js';
+import { debateService } from './debate-service.js';
 
 // Get the directory name in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -39,6 +43,8 @@ async function initializeDatabase() {
       console.log("Database initialized successfully!");
     } else {
       console.log("Database tables already exist!");
+      // The script only uses IF NOT EXISTS, so rerunning it adds newer tables
+      await initializeTables();
     }
   } catch (error) {
     console.error("Error initializing database:", error);
@@ -46,8 +52,9 @@ async function initializeDatabase() {
 }
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+// Slack routes verify request signatures against the raw body
+app.use(express.json({ verify: captureSlackRawBody }));
+app.use(express.urlencoded({ extended: false, verify: captureSlackRawBody }));
 
 app.use((req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
@@ -83,6 +90,14 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   // Initialize database BEFORE starting the server
   await initializeDatabase();
 
+  // Debates that were generating when the last process stopped will never finish
+  debateService.failInterruptedDebates().catch((error) => console.error("Error failing interrupted debates:", error));
+
+  // A memory-only knowledge index starts empty; rebuild it in the background
+  if (!knowledgeBase.persistent) {
+    documentService.reindexAll().catch((error) => console.error("Error reindexing knowledge:", error));
+  }
+
   const server = registerRoutes(app);
   // Register Slack slash command + events endpoint
   registerSlackRoutes(app);
@@ -124,6 +139,12 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   function startServer() {
     server.listen(port, "0.0.0.0", () => {
       console.log(`Server running on port ${port}`);
+      if (process.env.TASK_WORKER_ENABLED !== 'false') {
+        // Tasks that were running when the last process stopped will never finish
+        taskWorker.failInterruptedTasks()
+          .catch((error) => console.error("Error failing interrupted tasks:", error))
+          .finally(() => taskWorker.start());
+      }
     }).on('error', (err: any) => {
       console.error('Server error:', err);
       process.exit(1);
@@ -0,0 +1,141 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { IngestionJobQueue, type IngestionJob, type IngestionUpload } from "./ingestion-jobs.js";
+import { DocumentError } from "./document-extractors.js";
+import type { DocumentService } from "./document-service.js";
+
+// Extracts the upload as text; "corrupt" files fail extraction and "broken" ones fail ingestion until fixed
+function fakeDocuments(state = { fixed: false }) {
+  let nextTwinId = 1;
+  const ingest = async (options: { onStage?: (stage: "analyzing" | "indexing") => void }) => {
+    options.onStage?.("analyzing");
+    options.onStage?.("indexing");
+    return { id: nextTwinId++ };
+  };
+  return {
+    async extractDocument(file: IngestionUpload) {
+      if (file.originalname.startsWith("corrupt")) throw new DocumentError("The file could not be read", "corrupt_document");
+      return { format: "text", text: file.buffer.toString() };
+    },
+    async createDigitalTwin(content: string, _name: string, options = {}) {
+      if (content.includes("broken") && !state.fixed) throw new Error("Analysis failed");
+      return ingest(options);
+    },
+    async addDocument(twinId: number, _content: string, options = {}) {
+      if (twinId === 404) return undefined;
+      return { ...(await ingest(options)), id: twinId };
+    },
+  } as unknown as DocumentService;
+}
+
+function upload(originalname: string, content = originalname): IngestionUpload {
+  return { buffer: Buffer.from(content), mimetype: "text/plain", originalname };
+}
+
+// Resolves once the job reaches a final state, with every status it went through
+function settled(queue: IngestionJobQueue, id: number): Promise<{ job: IngestionJob; statuses: string[] }> {
+  const statuses: string[] = [];
+  return new Promise((resolve) => {
+    const listener = (job: IngestionJob) => {
+      if (job.id !== id) return;
+      statuses.push(job.status);
+      if (job.status === "done" || job.status === "failed") {
+        queue.off("job_updated", listener);
+        resolve({ job, statuses });
+      }
+    };
+    queue.on("job_updated", listener);
+  });
+}
+
+describe("IngestionJobQueue", () => {
+  let state: { fixed: boolean };
+  let queue: IngestionJobQueue;
+
+  beforeEach(() => {
+    state = { fixed: false };
+    queue = new IngestionJobQueue(fakeDocuments(state));
+  });
+
+  it("moves a job through every stage and records the twin", async () => {
+    const queued = queue.enqueue(upload("notes.txt"), { twinName: "Ada" }, "alice");
+    assert.equal(queued.status, "queued");
+    assert.equal(queued.action, "create");
+
+    const { job, statuses } = await settled(queue, queued.id);
+    assert.deepEqual(statuses, ["extracting", "analyzing", "indexing", "done"]);
+    assert.equal(job.progress, 100);
+    assert.equal(job.twinId, 1);
+    assert.equal(job.format, "text");
+    assert.equal(job.attempts, 1);
+    assert.ok(job.completedAt);
+  });
+
+  it("runs jobs one at a time in the order they were queued", async () => {
+    const order: number[] = [];
+    queue.on("job_updated", (job: IngestionJob) => job.status === "extracting" && order.push(job.id));
+    const first = queue.enqueue(upload("a.txt"), { twinName: "Ada" });
+    const second = queue.enqueue(upload("b.txt"), { twinId: 7, twinName: "Alan" });
+    const [, { job }] = await Promise.all([settled(queue, first.id), settled(queue, second.id)]);
+
+    assert.deepEqual(order, [first.id, second.id]);
+    assert.equal(job.action, "append");
+    assert.equal(job.twinId, 7);
+    assert.deepEqual(queue.list().map((entry) => entry.id), [second.id, first.id]);
+  });
+
+  it("reports extraction errors with their code and a missing twin as a failure", async () => {
+    const corrupt = queue.enqueue(upload("corrupt.pdf"), { twinName: "Ada" });
+    const missing = queue.enqueue(upload("more.txt"), { twinId: 404, twinName: "Gone" });
+
+    const { job } = await settled(queue, corrupt.id);
+    assert.equal(job.status, "failed");
+    assert.equal(job.code, "corrupt_document");
+    assert.equal(job.error, "The file could not be read");
+
+    const { job: append } = await settled(queue, missing.id);
+    assert.equal(append.error, "Digital twin 404 no longer exists");
+    assert.equal(append.code, undefined);
+  });
+
+  it("retries a failed job with its original upload", async () => {
+    const queued = queue.enqueue(upload("broken.txt"), { twinName: "Ada" });
+    assert.equal((await settled(queue, queued.id)).job.status, "failed");
+
+    state.fixed = true;
+    const retried = queue.retry(queued.id)!;
+    assert.equal(retried.status, "queued");
+    assert.equal(retried.error, undefined);
+
+    const { job } = await settled(queue, queued.id);
+    assert.equal(job.status, "done");
+    assert.equal(job.attempts, 2);
+    assert.throws(() => queue.retry(queued.id), /Only failed jobs can be retried/);
+    assert.equal(queue.retry(999), undefined);
+  });
+
+  it("drops the oldest finished jobs beyond the limit", async () => {
+    queue = new IngestionJobQueue(fakeDocuments(state), { maxFinishedJobs: 2 });
+    const ids = ["a.txt", "b.txt", "c.txt"].map((name) => queue.enqueue(upload(name), { twinName: "Ada" }).id);
+    await settled(queue, ids[2]);
+
+    assert.equal(queue.get(ids[0]), undefined);
+    assert.deepEqual(queue.list().map((job) => job.id), [ids[2], ids[1]]);
+  });
+
+  it("releases the uploads of the oldest failures beyond the byte limit", async () => {
+    queue = new IngestionJobQueue(fakeDocuments(state), { maxRetainedUploadBytes: 25 });
+    const ids = ["broken-1.txt", "broken-2.txt", "broken-3.txt"].map(
+      (name) => queue.enqueue(upload(name, `broken ${"x".repeat(3)}`), { twinName: "Ada" }).id
+    );
+    await settled(queue, ids[2]);
+
+    // Each upload is 10 bytes, so only the two newest fit
+    assert.throws(() => queue.retry(ids[0]), /no longer available/);
+    assert.equal(queue.get(ids[0])?.status, "failed");
+    state.fixed = true;
+    assert.equal(queue.retry(ids[1])?.status, "queued");
+    assert.equal(queue.retry(ids[2])?.status, "queued");
+    await settled(queue, ids[2]);
+  });
+});
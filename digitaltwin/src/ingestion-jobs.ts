@@ -0,0 +1,219 @@
+import { EventEmitter } from "events";
+import { documentService as defaultDocumentService, type DocumentService } from "./document-service.js";
+import { DocumentError, type DocumentFormat } from "./document-extractors.js";
+
+export type IngestionJobStatus = "queued" | "extracting" | "analyzing" | "indexing" | "done" | "failed";
+
+export interface IngestionJob {
+  id: number;
+  // "create" builds or refreshes a twin by name; "append" adds to twinId
+  action: "create" | "append";
+  status: IngestionJobStatus;
+  progress: number;
+  twinName: string;
+  fileName: string;
+  format?: DocumentFormat;
+  twinId?: number;
+  error?: string;
+  code?: string;
+  attempts: number;
+  changedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface IngestionUpload {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+}
+
+// Rough share of the work done when each stage starts
+const STAGE_PROGRESS: Record<IngestionJobStatus, number> = {
+  queued: 0,
+  extracting: 10,
+  analyzing: 40,
+  indexing: 70,
+  done: 100,
+  failed: 100,
+};
+
+// Finished jobs kept for status lookups; older ones are dropped first
+const MAX_FINISHED_JOBS = 100;
+// Total size of failed uploads kept for retries; the oldest are released first
+const MAX_RETAINED_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+// Sent with queued jobs so clients don't rely on them outliving the process
+export const INGESTION_JOBS_NOTE = "Ingestion jobs are kept in memory and are lost if the server restarts";
+
+export interface IngestionJobLimits {
+  maxFinishedJobs?: number;
+  maxRetainedUploadBytes?: number;
+}
+
+/**
+ * Runs document uploads in the background, one at a time, so large files
+ * don't hold the HTTP request open. Jobs live in memory and do not survive
+ * a restart; failed jobs keep their upload so they can be retried, up to
+ * maxRetainedUploadBytes in total.
+ *
+ * Emits "job_updated" (IngestionJob) on every state change.
+ */
+export class IngestionJobQueue extends EventEmitter {
+  private jobs = new Map<number, IngestionJob>();
+  private uploads = new Map<number, IngestionUpload>();
+  private pending: number[] = [];
+  private nextId = 1;
+  private running = false;
+  private maxFinishedJobs: number;
+  private maxRetainedUploadBytes: number;
+
+  constructor(private documents: DocumentService = defaultDocumentService, limits: IngestionJobLimits = {}) {
+    super();
+    this.maxFinishedJobs = limits.maxFinishedJobs ?? MAX_FINISHED_JOBS;
+    this.maxRetainedUploadBytes = limits.maxRetainedUploadBytes ?? MAX_RETAINED_UPLOAD_BYTES;
+  }
+
+  enqueue(upload: IngestionUpload, target: { twinName: string; twinId?: number }, changedBy = "upload"): IngestionJob {
+    const { twinName, twinId } = target;
+    const now = new Date().toISOString();
+    const job: IngestionJob = {
+      id: this.nextId++,
+      action: twinId ? "append" : "create",
+      status: "queued",
+      progress: 0,
+      twinName,
+      twinId,
+      fileName: upload.originalname,
+      attempts: 0,
+      changedBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    this.uploads.set(job.id, upload);
+    console.log(`[IngestionJobs] Queued job ${job.id} for ${twinName} (${upload.originalname})`);
+    this.schedule(job);
+    return { ...job };
+  }
+
+  get(id: number): IngestionJob | undefined {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  // Newest first
+  list(): IngestionJob[] {
+    return Array.from(this.jobs.values())
+      .reverse()
+      .map((job) => ({ ...job }));
+  }
+
+  /**
+   * Queue a failed job again with its original upload. Returns undefined if
+   * the job does not exist and throws if it has not failed.
+   */
+  retry(id: number): IngestionJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    if (job.status !== "failed") {
+      throw new Error(`Only failed jobs can be retried; job ${id} is ${job.status}`);
+    }
+    if (!this.uploads.has(id)) {
+      throw new Error(`The upload for job ${id} is no longer available`);
+    }
+    delete job.error;
+    delete job.code;
+    delete job.completedAt;
+    console.log(`[IngestionJobs] Retrying job ${id}`);
+    this.schedule(job);
+    return { ...job };
+  }
+
+  private schedule(job: IngestionJob) {
+    this.update(job, "queued");
+    this.pending.push(job.id);
+    // Run after the caller has sent its response
+    setImmediate(() => this.drain());
+  }
+
+  private async drain() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      while (this.pending.length) {
+        const job = this.jobs.get(this.pending.shift()!);
+        if (job) await this.process(job);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async process(job: IngestionJob) {
+    const upload = this.uploads.get(job.id);
+    if (!upload) return;
+    job.attempts++;
+
+    try {
+      this.update(job, "extracting");
+      const document = await this.documents.extractDocument(upload);
+      job.format = document.format;
+
+      const options = {
+        changedBy: job.changedBy,
+        fileName: job.fileName,
+        format: document.format,
+        onStage: (stage: IngestionJobStatus) => this.update(job, stage),
+      };
+      const twin =
+        job.action === "append"
+          ? await this.documents.addDocument(job.twinId!, document.text, options)
+          : await this.documents.createDigitalTwin(document.text, job.twinName, options);
+      if (!twin) throw new Error(`Digital twin ${job.twinId} no longer exists`);
+
+      job.twinId = twin.id;
+      job.completedAt = new Date().toISOString();
+      this.uploads.delete(job.id);
+      this.update(job, "done");
+      console.log(`[IngestionJobs] Job ${job.id} finished: twin ${twin.id}`);
+    } catch (error: any) {
+      console.error(`[IngestionJobs] Job ${job.id} failed:`, error);
+      job.error = error?.message || String(error);
+      job.code = error instanceof DocumentError ? error.code : undefined;
+      job.completedAt = new Date().toISOString();
+      this.update(job, "failed");
+    }
+    this.prune();
+  }
+
+  private update(job: IngestionJob, status: IngestionJobStatus) {
+    job.status = status;
+    job.progress = STAGE_PROGRESS[status];
+    job.updatedAt = new Date().toISOString();
+    this.emit("job_updated", { ...job });
+  }
+
+  private prune() {
+    const finished = Array.from(this.jobs.values()).filter((job) => job.status === "done" || job.status === "failed");
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.maxFinishedJobs))) {
+      this.jobs.delete(job.id);
+      this.uploads.delete(job.id);
+    }
+
+    // Newest failures keep their uploads; older ones can no longer be retried
+    let retained = 0;
+    for (const job of finished.reverse()) {
+      const upload = job.status === "failed" ? this.uploads.get(job.id) : undefined;
+      if (!upload || !this.jobs.has(job.id)) continue;
+      retained += upload.buffer.length;
+      if (retained > this.maxRetainedUploadBytes) {
+        this.uploads.delete(job.id);
+        console.log(`[IngestionJobs] Released the upload of failed job ${job.id}; it can no longer be retried`);
+      }
+    }
+  }
+}
+
+export const ingestionJobs = new IngestionJobQueue();
@@ -50,3 +50,86 @@ CREATE TABLE IF NOT EXISTS conversations (
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
+
+-- Create twin_revisions table
+CREATE TABLE IF NOT EXISTS twin_revisions (
+  id SERIAL PRIMARY KEY,
+  twin_id INTEGER NOT NULL REFERENCES digital_twins(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  change_type TEXT NOT NULL,
+  changed_by TEXT NOT NULL DEFAULT 'system',
+  note TEXT,
+  snapshot JSONB NOT NULL,
+  diff JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (twin_id, revision)
+);
+
+-- Create twin_documents table
+CREATE TABLE IF NOT EXISTS twin_documents (
+  id SERIAL PRIMARY KEY,
+  twin_id INTEGER NOT NULL REFERENCES digital_twins(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL,
+  content TEXT NOT NULL,
+  added_by TEXT NOT NULL DEFAULT 'upload',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create twin_qa_pairs table
+CREATE TABLE IF NOT EXISTS twin_qa_pairs (
+  id SERIAL PRIMARY KEY,
+  twin_id INTEGER NOT NULL REFERENCES digital_twins(id) ON DELETE CASCADE,
+  document_id INTEGER REFERENCES twin_documents(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create slack_sessions table
+CREATE TABLE IF NOT EXISTS slack_sessions (
+  id SERIAL PRIMARY KEY,
+  session_key TEXT NOT NULL UNIQUE,
+  team_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  channel_id TEXT NOT NULL,
+  thread_ts TEXT,
+  selected_persona TEXT,
+  panelists JSONB,
+  history JSONB NOT NULL DEFAULT '[]',
+  conversation_id INTEGER REFERENCES conversations(id) ON DELETE SET NULL,
+  last_activity TIMESTAMP NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Sessions created before threads were tracked
+ALTER TABLE slack_sessions ADD COLUMN IF NOT EXISTS thread_ts TEXT;
+ALTER TABLE slack_sessions ADD COLUMN IF NOT EXISTS panelists JSONB;
+
+-- Create slack_channel_settings table
+CREATE TABLE IF NOT EXISTS slack_channel_settings (
+  id SERIAL PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  channel_id TEXT NOT NULL,
+  default_persona TEXT,
+  updated_by TEXT,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (team_id, channel_id)
+);
+
+-- Create slack_installations table
+CREATE TABLE IF NOT EXISTS slack_installations (
+  id SERIAL PRIMARY KEY,
+  team_id TEXT NOT NULL UNIQUE,
+  team_name TEXT,
+  enterprise_id TEXT,
+  app_id TEXT,
+  bot_user_id TEXT,
+  bot_token TEXT NOT NULL,
+  scope TEXT,
+  installed_by TEXT,
+  installed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
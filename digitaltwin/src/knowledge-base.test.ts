@@ -0,0 +1,129 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  HashingEmbedder,
+  KnowledgeBase,
+  LocalVectorStore,
+  chunkText,
+  cosineSimilarity,
+  createKnowledgeBase,
+  type Embedder
+} from './knowledge-base.js';
+
+const words = (count: number, prefix = 'w') => Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('chunkText', () => {
+  it('keeps short paragraphs together in one chunk', () => {
+    const text = 'Q1: Why design?\nA1: Because people matter.\n\nQ2: And prototypes?\nA2: Build to think.';
+    assert.deepEqual(chunkText(text), ['Q1: Why design? A1: Because people matter. Q2: And prototypes? A2: Build to think.']);
+  });
+
+  it('splits long text into overlapping chunks of at most `size` words', () => {
+    const chunks = chunkText(words(25), 10, 3);
+    assert.ok(chunks.every(chunk => chunk.split(' ').length <= 10));
+    // Each chunk starts with the last three words of the one before
+    for (let i = 1; i < chunks.length; i++) {
+      assert.deepEqual(chunks[i].split(' ').slice(0, 3), chunks[i - 1].split(' ').slice(-3));
+    }
+    const covered = new Set(chunks.flatMap(chunk => chunk.split(' ')));
+    assert.equal(covered.size, 25);
+  });
+
+  it('starts a new chunk rather than splitting a paragraph that would not fit', () => {
+    const chunks = chunkText(`${words(6, 'a')}\n\n${words(6, 'b')}`, 10, 2);
+    assert.equal(chunks[0], words(6, 'a'));
+    assert.ok(chunks[1].endsWith(words(6, 'b')));
+  });
+
+  it('returns nothing for blank text', () => {
+    assert.deepEqual(chunkText(' \n\n \n'), []);
+  });
+});
+
+describe('HashingEmbedder', () => {
+  it('is deterministic and scores related text above unrelated text', async () => {
+    const embedder = new HashingEmbedder();
+    const [question, related, unrelated, again] = await embedder.embed([
+      'How did you design the first iPhone?',
+      'The first iPhone design took years of prototypes.',
+      'Relativity changed how we understand gravity.',
+      'How did you design the first iPhone?'
+    ]);
+    assert.deepEqual(question, again);
+    assert.ok(cosineSimilarity(question, related) > cosineSimilarity(question, unrelated));
+  });
+});
+
+describe('KnowledgeBase', () => {
+  const corpus = [
+    'Design thinking starts with empathy for the people you build for.',
+    'Relativity describes how gravity bends space and time.',
+    'A prototype is a question asked with your hands.'
+  ].join('\n\n');
+
+  it("ranks the most relevant chunk first and only searches the twin's own material", async () => {
+    // Short paragraphs share one chunk, so store one per paragraph directly
+    const embedder = new HashingEmbedder();
+    const store = new LocalVectorStore();
+    const paragraphs = corpus.split('\n\n');
+    await store.upsert(
+      paragraphs.map((text, position) => ({ id: `1:document:${position}`, twinId: 1, text, source: 'document', position })),
+      await embedder.embed(paragraphs)
+    );
+    const knowledge = new KnowledgeBase(embedder, store);
+    await knowledge.indexTwin(2, 'Gravity is not a force but curved space.');
+
+    const [best] = await knowledge.retrieve(1, 'What does gravity do to space and time?');
+    assert.equal(best.twinId, 1);
+    assert.match(best.text, /Relativity/);
+    assert.ok((await knowledge.retrieve(2, 'gravity space')).every(chunk => chunk.twinId === 2));
+    assert.deepEqual(await knowledge.retrieve(3, 'gravity'), []);
+  });
+
+  it("replaces a twin's chunks on reindex and keeps them when embedding fails", async () => {
+    let failing = false;
+    const hashing = new HashingEmbedder();
+    const embedder: Embedder = {
+      name: 'flaky',
+      embed: texts => (failing ? Promise.reject(new Error('Embedding service down')) : hashing.embed(texts))
+    };
+    const knowledge = new KnowledgeBase(embedder, new LocalVectorStore());
+
+    assert.equal(await knowledge.indexTwin(1, corpus), 1);
+    assert.equal(await knowledge.indexTwin(1, 'Only this now.'), 1);
+    assert.match((await knowledge.retrieve(1, 'only this', 4, 0))[0].text, /Only this now/);
+
+    failing = true;
+    await assert.rejects(knowledge.indexTwin(1, 'Replacement'), /Embedding service down/);
+    failing = false;
+    assert.match((await knowledge.retrieve(1, 'only this', 4, 0))[0].text, /Only this now/);
+  });
+
+  it('drops results below the minimum score', async () => {
+    const knowledge = new KnowledgeBase(new HashingEmbedder(), new LocalVectorStore());
+    await knowledge.indexTwin(1, corpus);
+    assert.deepEqual(await knowledge.retrieve(1, 'zebra xylophone', 4, 0.5), []);
+  });
+});
+
+describe('createKnowledgeBase', () => {
+  afterEach(() => mock.restoreAll());
+
+  async function embeddingsUrl(env: NodeJS.ProcessEnv): Promise<string> {
+    const urls: string[] = [];
+    mock.method(globalThis, 'fetch', async (url: string) => {
+      urls.push(url);
+      return new Response(JSON.stringify({ data: [{ index: 0, embedding: [1, 0] }] }), { status: 200 });
+    });
+    await createKnowledgeBase({ EMBEDDINGS_PROVIDER: 'openai', OPENAI_API_KEY: 'sk-test', ...env }).retrieve(1, 'hello');
+    return urls[0];
+  }
+
+  it('sends OpenAI embeddings to EMBEDDINGS_BASE_URL, not LLM_BASE_URL', async () => {
+    assert.equal(await embeddingsUrl({ LLM_BASE_URL: 'http://chat.local/v1' }), 'https://api.openai.com/v1/embeddings');
+    assert.equal(
+      await embeddingsUrl({ LLM_BASE_URL: 'http://chat.local/v1', EMBEDDINGS_BASE_URL: 'http://embed.local/v1/' }),
+      'http://embed.local/v1/embeddings'
+    );
+  });
+});
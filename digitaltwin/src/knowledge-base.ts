@@ -0,0 +1,377 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+import { promises as fs } from 'fs';
+
+export interface KnowledgeChunk {
+  id: string;
+  twinId: number;
+  text: string;
+  source: string;
+  position: number;
+}
+
+export interface RetrievedChunk extends KnowledgeChunk {
+  score: number;
+}
+
+/**
+ * Turns text into fixed-length vectors. Implementations must be
+ * deterministic for a given model so stored and query vectors are comparable.
+ */
+export interface Embedder {
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface VectorStore {
+  // Whether indexed vectors survive a restart
+  readonly persistent: boolean;
+  upsert(chunks: KnowledgeChunk[], vectors: number[][]): Promise<void>;
+  query(twinId: number, vector: number[], limit: number): Promise<RetrievedChunk[]>;
+  deleteTwin(twinId: number): Promise<void>;
+}
+
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'has', 'have',
+  'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the',
+  'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'with', 'you', 'your'
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) || [])
+    .filter(token => !STOP_WORDS.has(token));
+}
+
+// 32-bit FNV-1a; stable across processes so stored vectors stay valid
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length > 0 ? vector.map(v => v / length) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Offline embedder using the hashing trick over unigrams and bigrams with
+ * sublinear term frequency. No model download or network access needed.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name = 'hashing';
+
+  constructor(private dimensions = 512) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const tokens = tokenize(text);
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]}_${tokens[i + 1]}`);
+    }
+
+    const counts = new Map<string, number>();
+    for (const feature of features) {
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+    }
+
+    const vector = new Array(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = hashToken(feature);
+      // The top bit picks a sign so colliding features tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    }
+    return normalize(vector);
+  }
+}
+
+export class OpenAIEmbedder implements Embedder {
+  readonly name = 'openai';
+
+  constructor(
+    private apiKey: string,
+    private model = 'text-embedding-3-small',
+    private baseUrl = 'https://api.openai.com/v1'
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!texts.length) return [];
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({ model: this.model, input: texts })
+    });
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+    }
+    const data = await response.json();
+    return data.data
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+}
+
+/**
+ * Local stand-in for a vector database. Keeps vectors in memory and, when
+ * given a file path, mirrors them to disk so indexes survive restarts.
+ */
+export class LocalVectorStore implements VectorStore {
+  private entries = new Map<string, { chunk: KnowledgeChunk; vector: number[] }>();
+  private loaded = false;
+
+  constructor(private filePath?: string) {}
+
+  get persistent(): boolean {
+    return Boolean(this.filePath);
+  }
+
+  private async load() {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!this.filePath) return;
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      for (const entry of JSON.parse(raw)) {
+        this.entries.set(entry.chunk.id, entry);
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('[KnowledgeBase] Could not read local vector store:', error);
+      }
+    }
+  }
+
+  private async persist() {
+    if (!this.filePath) return;
+    await fs.writeFile(this.filePath, JSON.stringify(Array.from(this.entries.values())));
+  }
+
+  async upsert(chunks: KnowledgeChunk[], vectors: number[][]): Promise<void> {
+    await this.load();
+    chunks.forEach((chunk, i) => this.entries.set(chunk.id, { chunk, vector: vectors[i] }));
+    await this.persist();
+  }
+
+  async query(twinId: number, vector: number[], limit: number): Promise<RetrievedChunk[]> {
+    await this.load();
+    return Array.from(this.entries.values())
+      .filter(entry => entry.chunk.twinId === twinId)
+      .map(entry => ({ ...entry.chunk, score: cosineSimilarity(vector, entry.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async deleteTwin(twinId: number): Promise<void> {
+    await this.load();
+    for (const [id, entry] of this.entries) {
+      if (entry.chunk.twinId === twinId) this.entries.delete(id);
+    }
+    await this.persist();
+  }
+}
+
+/**
+ * Chroma over its REST API. All twins share one collection per embedder
+ * and are separated by a twinId metadata filter.
+ */
+export class ChromaVectorStore implements VectorStore {
+  readonly persistent = true;
+  private collectionId: Promise<string> | null = null;
+
+  constructor(private baseUrl: string, private collectionName: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  private async request(path: string, body: unknown) {
+    const response = await fetch(`${this.baseUrl}/api/v1${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new Error(`Chroma request ${path} failed: ${response.status} ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  private getCollectionId(): Promise<string> {
+    if (!this.collectionId) {
+      this.collectionId = this.request('/collections', {
+        name: this.collectionName,
+        get_or_create: true
+      }).then(collection => collection.id);
+      // Allow a retry on the next call if Chroma was unreachable
+      this.collectionId.catch(() => { this.collectionId = null; });
+    }
+    return this.collectionId;
+  }
+
+  async upsert(chunks: KnowledgeChunk[], vectors: number[][]): Promise<void> {
+    if (!chunks.length) return;
+    const id = await this.getCollectionId();
+    await this.request(`/collections/${id}/upsert`, {
+      ids: chunks.map(c => c.id),
+      embeddings: vectors,
+      documents: chunks.map(c => c.text),
+      metadatas: chunks.map(c => ({ twinId: c.twinId, source: c.source, position: c.position }))
+    });
+  }
+
+  async query(twinId: number, vector: number[], limit: number): Promise<RetrievedChunk[]> {
+    const id = await this.getCollectionId();
+    const result = await this.request(`/collections/${id}/query`, {
+      query_embeddings: [vector],
+      n_results: limit,
+      where: { twinId },
+      include: ['documents', 'metadatas', 'distances']
+    });
+    const ids: string[] = result.ids?.[0] || [];
+    return ids.map((chunkId, i) => {
+      const metadata = result.metadatas[0][i] || {};
+      return {
+        id: chunkId,
+        twinId,
+        text: result.documents[0][i],
+        source: metadata.source,
+        position: metadata.position,
+        // Chroma returns a distance; convert so higher is better like the local store
+        score: 1 - (result.distances?.[0]?.[i] ?? 1)
+      };
+    });
+  }
+
+  async deleteTwin(twinId: number): Promise<void> {
+    const id = await this.getCollectionId();
+    await this.request(`/collections/${id}/delete`, { where: { twinId } });
+  }
+}
+
+/**
+ * Split text into overlapping chunks of roughly `size` words, keeping
+ * paragraphs (and therefore Q/A pairs) together where they fit.
+ */
+export function chunkText(text: string, size = 180, overlap = 40): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (!current.length) return;
+    chunks.push(current.join(' '));
+    current = overlap > 0 ? current.slice(-overlap) : [];
+  };
+
+  for (const paragraph of paragraphs) {
+    const words = paragraph.split(' ');
+    if (current.length + words.length > size && current.length > overlap) {
+      flush();
+    }
+    for (const word of words) {
+      current.push(word);
+      if (current.length >= size) flush();
+    }
+  }
+  if (current.length > overlap || !chunks.length) {
+    const tail = current.join(' ').trim();
+    if (tail) chunks.push(tail);
+  }
+  return chunks;
+}
+
+export class KnowledgeBase {
+  constructor(private embedder: Embedder, private store: VectorStore) {}
+
+  get persistent(): boolean {
+    return this.store.persistent;
+  }
+
+  /**
+   * Replace a twin's indexed material with the given content.
+   * Returns the number of chunks stored. The old chunks are only dropped
+   * once the new ones are embedded, so a failed embedding keeps them.
+   */
+  async indexTwin(twinId: number, content: string, source = 'document'): Promise<number> {
+    const texts = chunkText(content);
+    const vectors = texts.length ? await this.embedder.embed(texts) : [];
+    await this.store.deleteTwin(twinId);
+    if (!texts.length) return 0;
+
+    const chunks: KnowledgeChunk[] = texts.map((text, position) => ({
+      id: `${twinId}:${source}:${position}`,
+      twinId,
+      text,
+      source,
+      position
+    }));
+    await this.store.upsert(chunks, vectors);
+    console.log(`[KnowledgeBase] Indexed ${chunks.length} chunks for twin ${twinId}`);
+    return chunks.length;
+  }
+
+  async retrieve(twinId: number, query: string, limit = 4, minScore = 0.05): Promise<RetrievedChunk[]> {
+    const [vector] = await this.embedder.embed([query]);
+    const results = await this.store.query(twinId, vector, limit);
+    return results.filter(result => result.score >= minScore);
+  }
+
+  async removeTwin(twinId: number): Promise<void> {
+    await this.store.deleteTwin(twinId);
+  }
+}
+
+function isConfigured(value?: string): value is string {
+  return !!value && !value.includes('your-');
+}
+
+/**
+ * EMBEDDINGS_PROVIDER picks the embedder (openai | hashing, default hashing
+ * unless an OpenAI key is present). OpenAI embeddings go to
+ * EMBEDDINGS_BASE_URL, else api.openai.com, never LLM_BASE_URL: a chat
+ * server need not serve embeddings. CHROMA_URL enables Chroma; otherwise
+ * the local store is used, persisted to VECTOR_STORE_PATH when set. Without
+ * either, the index lives in memory and is rebuilt from twin documents at
+ * startup.
+ */
+export function createKnowledgeBase(env: NodeJS.ProcessEnv = process.env): KnowledgeBase {
+  const requested = (env.EMBEDDINGS_PROVIDER || '').toLowerCase();
+  const useOpenAI = requested === 'openai' || (!requested && isConfigured(env.OPENAI_API_KEY));
+  const embedder: Embedder = useOpenAI
+    ? new OpenAIEmbedder(env.OPENAI_API_KEY || '', env.EMBEDDINGS_MODEL || undefined, env.EMBEDDINGS_BASE_URL || undefined)
+    : new HashingEmbedder();
+
+  const store: VectorStore = isConfigured(env.CHROMA_URL)
+    ? new ChromaVectorStore(env.CHROMA_URL, `digital-twin-knowledge-${embedder.name}`)
+    : new LocalVectorStore(env.VECTOR_STORE_PATH || undefined);
+
+  console.log(`[KnowledgeBase] Using ${embedder.name} embeddings with ${store.constructor.name}`);
+  return new KnowledgeBase(embedder, store);
+}
+
+export const knowledgeBase = createKnowledgeBase();
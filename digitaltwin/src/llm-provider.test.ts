@@ -0,0 +1,71 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnthropicProvider, MockProvider, OpenAICompatibleProvider, createLLMProvider } from './llm-provider.js';
+
+const request = { system: 'You are Ada.', messages: [{ role: 'user' as const, content: 'Hello' }] };
+
+// Replace fetch with one that streams `chunks` as the response body
+function stubStream(chunks: string[]) {
+  mock.method(globalThis, 'fetch', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      }
+    });
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  });
+}
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+describe('streaming', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('joins events split across chunks and keeps a last event without a trailing newline', async () => {
+    const events = `${delta('Hello')}\n\n${delta(', world')}\n\n${delta('!')}`;
+    stubStream([events.slice(0, 20), events.slice(20, 60), events.slice(60)]);
+
+    const tokens: string[] = [];
+    const text = await new OpenAICompatibleProvider({ apiKey: 'sk-test' }).stream(request, token => tokens.push(token));
+    assert.deepEqual(tokens, ['Hello', ', world', '!']);
+    assert.equal(text, 'Hello, world!');
+  });
+
+  it('skips keep-alives and the [DONE] marker', async () => {
+    stubStream([`: keep-alive\n\n${delta('Hi')}\n\ndata: [DONE]`]);
+    assert.equal(await new OpenAICompatibleProvider().stream(request, () => {}), 'Hi');
+  });
+
+  it('reads Anthropic text deltas and surfaces stream errors', async () => {
+    const event = (body: unknown) => `data: ${JSON.stringify(body)}\n\n`;
+    stubStream([
+      event({ type: 'message_start' }),
+      event({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi there' } }),
+      `data: ${JSON.stringify({ type: 'error', error: { message: 'overloaded' } })}`
+    ]);
+    await assert.rejects(new AnthropicProvider({ apiKey: 'key' }).stream(request, () => {}), /LLM stream error: overloaded/);
+  });
+});
+
+describe('createLLMProvider', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('warns when it falls back to the mock provider for lack of an API key', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    assert.ok(createLLMProvider({}) instanceof MockProvider);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /No OPENAI_API_KEY or ANTHROPIC_API_KEY set/);
+  });
+
+  it('uses the mock provider silently when asked for it', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    assert.ok(createLLMProvider({ LLM_PROVIDER: 'mock' }) instanceof MockProvider);
+    assert.equal(warn.mock.callCount(), 0);
+  });
+
+  it('picks the provider whose API key is set', () => {
+    assert.equal(createLLMProvider({ ANTHROPIC_API_KEY: 'key' }).name, 'anthropic');
+    assert.equal(createLLMProvider({ OPENAI_API_KEY: 'sk-test', ANTHROPIC_API_KEY: 'key' }).name, 'openai');
+  });
+});
@@ -0,0 +1,337 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface CompletionRequest {
+  system: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export type TokenHandler = (token: string) => void;
+
+/**
+ * Minimal contract every language model backend implements.
+ * Providers receive a fully built system prompt plus the chat history and
+ * return the assistant's reply as plain text. `stream` does the same while
+ * reporting text increments as they arrive, and resolves to the full reply.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest, onToken: TokenHandler): Promise<string>;
+}
+
+export interface ProviderOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_MAX_TOKENS = 400;
+const DEFAULT_TEMPERATURE = 0.8;
+const DEFAULT_TIMEOUT_MS = 30000;
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`LLM request failed: ${response.status} ${response.statusText} ${errorText}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function openStream(url: string, headers: Record<string, string>, body: unknown, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: controller.signal
+  }).catch(error => {
+    clearTimeout(timer);
+    throw error;
+  });
+  if (!response.ok || !response.body) {
+    clearTimeout(timer);
+    const errorText = await response.text();
+    throw new Error(`LLM request failed: ${response.status} ${response.statusText} ${errorText}`);
+  }
+  return { response, done: () => clearTimeout(timer) };
+}
+
+// Parses one server-sent event line, or returns undefined for anything but a JSON `data:` line
+function parseEventLine(line: string): any {
+  const data = line.trim();
+  if (!data.startsWith('data:')) return undefined;
+  const payload = data.slice(5).trim();
+  if (!payload || payload === '[DONE]') return undefined;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    // Ignore keep-alive or partial lines
+    return undefined;
+  }
+}
+
+// Yields the JSON payload of every `data:` line in a server-sent event stream
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    for (const line of lines) {
+      const event = parseEventLine(line);
+      if (event !== undefined) yield event;
+    }
+  }
+  // Some servers end the stream without a newline after the last event
+  const event = parseEventLine(buffered + decoder.decode());
+  if (event !== undefined) yield event;
+}
+
+/**
+ * Chat Completions API. Works against OpenAI and any compatible server
+ * (vLLM, Ollama, LM Studio, OpenRouter) by pointing LLM_BASE_URL at it.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(options: ProviderOptions = {}) {
+    this.apiKey = options.apiKey || '';
+    this.model = options.model || 'gpt-4o-mini';
+    this.baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+    this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    const data = await postJson(`${this.baseUrl}/chat/completions`, headers, {
+      model: this.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      messages: [
+        { role: 'system', content: request.system },
+        ...request.messages
+      ]
+    }, this.timeoutMs);
+
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('LLM response did not contain a message');
+    }
+    return text.trim();
+  }
+
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<string> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    const { response, done } = await openStream(`${this.baseUrl}/chat/completions`, headers, {
+      model: this.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      stream: true,
+      messages: [
+        { role: 'system', content: request.system },
+        ...request.messages
+      ]
+    }, this.timeoutMs);
+
+    let text = '';
+    try {
+      for await (const event of readServerSentEvents(response.body!)) {
+        const token = event?.choices?.[0]?.delta?.content;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+      }
+    } finally {
+      done();
+    }
+    return text.trim();
+  }
+}
+
+/**
+ * Anthropic Messages API. The system prompt travels separately from the
+ * messages, and the conversation has to start with a user turn.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(options: ProviderOptions = {}) {
+    this.apiKey = options.apiKey || '';
+    this.model = options.model || 'claude-3-5-haiku-latest';
+    this.baseUrl = (options.baseUrl || 'https://api.anthropic.com/v1').replace(/\/$/, '');
+    this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const data = await postJson(`${this.baseUrl}/messages`, {
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01'
+    }, {
+      model: this.model,
+      system: request.system,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      messages: normalizeForAnthropic(request.messages)
+    }, this.timeoutMs);
+
+    const text = (data?.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    if (!text) {
+      throw new Error('LLM response did not contain text content');
+    }
+    return text.trim();
+  }
+
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<string> {
+    const { response, done } = await openStream(`${this.baseUrl}/messages`, {
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01'
+    }, {
+      model: this.model,
+      system: request.system,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      stream: true,
+      messages: normalizeForAnthropic(request.messages)
+    }, this.timeoutMs);
+
+    let text = '';
+    try {
+      for await (const event of readServerSentEvents(response.body!)) {
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          text += event.delta.text;
+          onToken(event.delta.text);
+        } else if (event.type === 'error') {
+          throw new Error(`LLM stream error: ${event.error?.message || 'unknown error'}`);
+        }
+      }
+    } finally {
+      done();
+    }
+    return text.trim();
+  }
+}
+
+// Anthropic rejects consecutive messages with the same role and a leading assistant turn
+function normalizeForAnthropic(messages: ChatMessage[]): ChatMessage[] {
+  const merged: ChatMessage[] = [];
+  for (const message of messages) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === message.role) {
+      last.content = `${last.content}\n\n${message.content}`;
+    } else {
+      merged.push({ ...message });
+    }
+  }
+  while (merged.length && merged[0].role !== 'user') {
+    merged.shift();
+  }
+  return merged;
+}
+
+/**
+ * Deterministic offline provider. Produces the same reply for the same
+ * input so tests and local development work without network access.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const speaker = request.system.match(/^You are ([^,.\n]+)/)?.[1]?.trim() || 'Assistant';
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    // Quote only the opening of long instructions so replies stay readable
+    const firstLine = (lastUser?.content.trim() || '').split('\n')[0];
+    const question = firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+    const turn = request.messages.filter(m => m.role === 'assistant').length + 1;
+    return `${speaker} (reply ${turn}): On "${question}", I would start from what I know best and work outward from there.`;
+  }
+
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<string> {
+    const text = await this.complete(request);
+    // Emit word by word, keeping the whitespace so tokens join back to the text
+    for (const token of text.match(/\S+\s*/g) || []) {
+      onToken(token);
+    }
+    return text;
+  }
+}
+
+/**
+ * Build the configured provider. LLM_PROVIDER selects the backend
+ * (openai | anthropic | mock); when it is unset the first provider with an
+ * API key wins, falling back to the mock provider with a warning.
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const requested = (env.LLM_PROVIDER || '').toLowerCase();
+  const timeoutMs = env.LLM_TIMEOUT_MS ? parseInt(env.LLM_TIMEOUT_MS, 10) : undefined;
+  const provider = requested
+    || (env.OPENAI_API_KEY ? 'openai' : env.ANTHROPIC_API_KEY ? 'anthropic' : 'mock');
+  if (!requested && provider === 'mock') {
+    console.warn('[LLM] No OPENAI_API_KEY or ANTHROPIC_API_KEY set; twins will give canned mock replies. Set LLM_PROVIDER=mock to use the mock provider on purpose.');
+  }
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.LLM_MODEL,
+        baseUrl: env.LLM_BASE_URL,
+        timeoutMs
+      });
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        model: env.LLM_MODEL,
+        baseUrl: env.LLM_BASE_URL,
+        timeoutMs
+      });
+    case 'mock':
+      return new MockProvider();
+    default:
+      console.warn(`[LLM] Unknown LLM_PROVIDER "${provider}", using mock provider`);
+      return new MockProvider();
+  }
+}
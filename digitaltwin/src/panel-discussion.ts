@@ -0,0 +1,121 @@
+import { conversationManager, type HistoryEntry } from "./conversation-manager.js";
+import { personaRegistry, type Persona } from "./persona-registry.js";
+
+export interface PanelReply {
+  persona: string; // slug
+  name: string;
+  text: string;
+}
+
+// More voices than this turns a thread into noise
+export const MAX_PANELISTS = 5;
+
+/**
+ * Parse "Einstein, Jobs and Disney: how do we launch this?" into panelist
+ * names and the opening question. Returns undefined without both parts.
+ */
+export function parsePanelCommand(text: string): { names: string[]; question: string } | undefined {
+  const separator = text.indexOf(":");
+  if (separator < 0) return undefined;
+  const names = text
+    .slice(0, separator)
+    .split(/,|&|\band\b/i)
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const question = text.slice(separator + 1).trim();
+  return names.length && question ? { names, question } : undefined;
+}
+
+// Full name, aliases, and first or last name on their own ("Jobs", "Walt")
+function nameVariants(persona: Persona): string[] {
+  const words = persona.name.split(/\s+/).filter((word) => word.length >= 3);
+  return [persona.name, ...persona.aliases, words[0], words[words.length - 1]]
+    .filter(Boolean)
+    .map((variant) => variant.toLowerCase());
+}
+
+function mentions(text: string, variant: string): boolean {
+  const escaped = variant.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`, "i").test(text);
+}
+
+/**
+ * Resolve requested names to personas, by registry lookup first and then
+ * by first or last name. Duplicates are dropped; unmatched names returned.
+ */
+export async function resolvePanelists(names: string[]): Promise<{ panelists: Persona[]; unknown: string[] }> {
+  const personas = await personaRegistry.list();
+  const panelists: Persona[] = [];
+  const unknown: string[] = [];
+  for (const name of names) {
+    const persona =
+      (await personaRegistry.resolve(name)) ||
+      personas.find((candidate) => nameVariants(candidate).includes(name.toLowerCase()));
+    if (!persona) unknown.push(name);
+    else if (!panelists.some((panelist) => panelist.slug === persona.slug)) panelists.push(persona);
+  }
+  return { panelists, unknown };
+}
+
+// Panelists a follow-up is directed at by name; empty means the whole panel
+export function addressedPanelists(message: string, panelists: Persona[]): Persona[] {
+  return panelists.filter((persona) => nameVariants(persona).some((variant) => mentions(message, variant)));
+}
+
+/**
+ * The thread as one panelist sees it: their own replies stay assistant
+ * turns and everyone else's are attributed by name on the user side.
+ */
+function panelHistory(history: HistoryEntry[], persona: Persona, names: Map<string, string>): HistoryEntry[] {
+  return history.map((entry) =>
+    entry.role === "assistant" && entry.persona !== persona.slug
+      ? { role: "user", content: `${names.get(entry.persona || "") || entry.persona || "Another panelist"}: ${entry.content}` }
+      : entry
+  );
+}
+
+function buildPanelPrompt(persona: Persona, panelists: Persona[], message: string, earlier: PanelReply[]): string {
+  const others = panelists.filter((panelist) => panelist.slug !== persona.slug).map((panelist) => panelist.name);
+  const lines = [
+    others.length
+      ? `You are on a panel with ${others.join(", ")}. The audience asks: "${message}"`
+      : `You are on a panel. The audience asks: "${message}"`,
+  ];
+  if (earlier.length) {
+    lines.push("", "Answers so far:", ...earlier.map((reply) => `${reply.name}: ${reply.text}`));
+    lines.push("", "Give your own answer. Build on or challenge the other panelists by name where it helps; don't repeat them.");
+  } else {
+    lines.push("", "Give your own view in a few sentences.");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Let each panelist answer `message` in turn, each seeing the thread so far
+ * and the answers given earlier in this round. `speakers` limits who
+ * answers (default: the whole panel); `onReply` runs as each answer is
+ * ready, so callers can post replies one by one. `conversationId` lets
+ * revisions pinned to that conversation shape the answers.
+ */
+export async function runPanelRound(
+  panelists: Persona[],
+  message: string,
+  history: HistoryEntry[],
+  options: { speakers?: Persona[]; conversationId?: number; onReply?: (reply: PanelReply) => Promise<void> } = {}
+): Promise<PanelReply[]> {
+  const { speakers = panelists, conversationId, onReply } = options;
+  const names = new Map(panelists.map((persona) => [persona.slug, persona.name]));
+  const replies: PanelReply[] = [];
+  for (const persona of speakers) {
+    const text = await conversationManager.generateResponse(
+      persona.slug,
+      buildPanelPrompt(persona, panelists, message, replies),
+      panelHistory(history, persona, names),
+      { conversationId }
+    );
+    const reply = { persona: persona.slug, name: persona.name, text };
+    replies.push(reply);
+    await onReply?.(reply);
+  }
+  return replies;
+}
@@ -0,0 +1,30 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spokenText } from "./persona-profile.js";
+
+describe("spokenText", () => {
+  it("drops the interviewer's questions and keeps the answers", () => {
+    const text = "Q1: Why design?\nA1: Because people matter.\nQ2: And prototypes?\nA2: Build to think.";
+    assert.equal(spokenText(text), "\nA1: Because people matter.\n\nA2: Build to think.");
+  });
+
+  it("drops a question that spans several lines up to its answer", () => {
+    const text = "Q: Tell me about the\nearly days.\nA: We started in a garage.";
+    assert.equal(spokenText(text), "\nA: We started in a garage.");
+  });
+
+  it("keeps the text after an unanswered question", () => {
+    const text = "Q: Anything to add?\n\nI believe every product starts with empathy.\nWe prototype early.";
+    assert.equal(spokenText(text), "\n\nI believe every product starts with empathy.\nWe prototype early.");
+  });
+
+  it("stops an unanswered question at the next question", () => {
+    const text = "Q1: First?\nQ2: Second?\nA2: Only this one was answered.";
+    assert.equal(spokenText(text), "\n\nA2: Only this one was answered.");
+  });
+
+  it("leaves text without questions alone", () => {
+    const text = "Design is how it works.\n\nQuality over quantity.";
+    assert.equal(spokenText(text), text);
+  });
+});
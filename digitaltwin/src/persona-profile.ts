@@ -0,0 +1,394 @@
+import { createLLMProvider, type LLMProvider } from "./llm-provider.js";
+import { STOP_WORDS } from "./knowledge-base.js";
+import { storage } from "./storage.js";
+import { personaRegistry, type Persona } from "./persona-registry.js";
+import { twinRevisionService } from "./twin-revisions.js";
+import { personaProfileSchema, type DigitalTwin, type InsertDigitalTwin, type PersonaProfile } from "./schema.js";
+
+/**
+ * Profile state kept in a twin's metadata.profile. Extraction writes
+ * `draft`; only an approved (`active`) profile shapes how the twin speaks.
+ */
+export interface ProfileState {
+  active?: PersonaProfile;
+  draft?: PersonaProfile;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+export interface ExtractOptions {
+  personas?: Persona[];
+  // Refine the heuristic profile with the language model
+  useLlm?: boolean;
+  documentCount?: number;
+}
+
+// Keywords (matched on word boundaries) and the capabilities they suggest
+const KEYWORD_CAPABILITIES: Record<string, string[]> = {
+  "research": ["Research", "Innovation"],
+  "leadership": ["Leadership", "Strategic Thinking"],
+  "innovation": ["Innovation", "Problem Solving", "Design Thinking"],
+  "technology": ["Technical Vision", "Innovation"],
+  "artificial intelligence": ["Artificial Intelligence", "Technical Vision"],
+  "ai": ["Artificial Intelligence", "Technical Vision"],
+  "machine learning": ["Artificial Intelligence", "Technical Vision"],
+  "design": ["Design", "Innovation", "Design Thinking", "Creativity"],
+  "creativity": ["Creativity", "Innovation", "Design Thinking"],
+  "engineering": ["Engineering", "Technical Vision", "Innovation"],
+  "product": ["Product Development", "Innovation", "Design Thinking"],
+  "products": ["Product Development", "Innovation", "Design Thinking"],
+  "entrepreneur": ["Entrepreneurship", "Strategic Thinking", "Innovation"],
+  "startup": ["Entrepreneurship", "Strategic Thinking", "Innovation"],
+  "vision": ["Technical Vision", "Strategic Thinking", "Creativity"],
+  "art": ["Art", "Creativity", "Innovation", "Design Thinking"],
+  "science": ["Research", "Technical Vision", "Innovation"],
+  "physics": ["Physics", "Research"],
+  "storytelling": ["Storytelling", "Creativity"],
+  "brainstorming": ["Creativity", "Innovation", "Design Thinking"],
+  "prototype": ["Design Thinking", "Innovation", "Product Development"],
+  "user experience": ["Design", "Design Thinking", "Innovation"],
+  "user centered": ["Design Thinking", "Innovation", "Design"],
+  "iteration": ["Design Thinking", "Innovation", "Product Development"],
+  "ideation": ["Creativity", "Innovation", "Design Thinking"],
+  "tim brown": ["Design Thinking", "Creativity", "Innovation", "Design", "User-Centered Design", "Prototyping"],
+  "ideo": ["Design Thinking", "Innovation", "Creativity", "User-Centered Design", "Prototyping"],
+};
+
+// Personality labels and the words that signal them; the first label wins ties
+const TONE_KEYWORDS: Record<string, string[]> = {
+  innovative: ["innovative", "creative", "imagination", "invent", "invention"],
+  analytical: ["analytical", "logical", "evidence", "data", "measure", "analysis"],
+  visionary: ["visionary", "leader", "future", "mission", "vision"],
+};
+
+const BELIEF_PATTERN = /\b(i|we) (believe|think|feel|am convinced|are convinced|know|hold)\b|\b(always|never) (should|must)\b/i;
+const BIOGRAPHY_PATTERN = /\b(born|grew up|founded|co-founded|graduated|studied|joined|worked at|moved to|became|died)\b|\b(1[5-9]\d{2}|20\d{2})\b/i;
+
+const MAX_QUOTE_LENGTH = 240;
+const MAX_LLM_CORPUS_CHARS = 12000;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wordPattern(phrase: string): RegExp {
+  return new RegExp(`\\b${escapeRegExp(phrase.toLowerCase())}\\b`, "g");
+}
+
+function countMatches(text: string, phrase: string): number {
+  return (text.match(wordPattern(phrase)) || []).length;
+}
+
+function clip(text: string, length = MAX_QUOTE_LENGTH): string {
+  const trimmed = text.replace(/\s+/g, " ").trim();
+  return trimmed.length > length ? `${trimmed.slice(0, length - 3)}...` : trimmed;
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.replace(/^(Q|A)\d*:\s*/, "").trim())
+    .filter((sentence) => sentence.length > 3);
+}
+
+// Interview material minus the interviewer's questions (Q1:/A1: layout).
+// A question runs to its answer, the next question or the end of its
+// paragraph, so an unanswered one does not swallow the rest of the text.
+export function spokenText(text: string): string {
+  return text.replace(/(^|\n)[ \t]*Q\d*:[\s\S]*?(?=\n[ \t]*\n|\n[ \t]*[QA]\d*:|$)/g, "$1");
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) || [];
+}
+
+/**
+ * Capabilities suggested by the text with a confidence per capability and
+ * the sentences that support it. More independent mentions raise confidence.
+ */
+export function extractExpertise(text: string, personas: Persona[] = []): PersonaProfile["expertise"] {
+  const lower = text.toLowerCase();
+  const sentences = splitSentences(spokenText(text));
+  const found = new Map<string, { hits: number; triggers: Set<string> }>();
+  const add = (capability: string, trigger: string, hits: number) => {
+    const entry = found.get(capability) || { hits: 0, triggers: new Set<string>() };
+    entry.hits += hits;
+    entry.triggers.add(trigger);
+    found.set(capability, entry);
+  };
+
+  Object.entries(KEYWORD_CAPABILITIES).forEach(([keyword, capabilities]) => {
+    const hits = countMatches(lower, keyword);
+    if (hits) capabilities.forEach((capability) => add(capability, keyword, hits));
+  });
+
+  // Material that mentions a known persona inherits its expertise
+  personas.forEach((persona) => {
+    const names = [persona.name, ...persona.aliases];
+    const mentioned = names.find((name) => countMatches(lower, name) > 0);
+    if (mentioned) persona.expertise.forEach((capability) => add(capability, mentioned, 1));
+  });
+
+  return Array.from(found.entries())
+    .map(([name, { hits, triggers }]) => ({
+      name,
+      confidence: round(1 - Math.pow(0.6, hits)),
+      quotes: sentences
+        .filter((sentence) => Array.from(triggers).some((trigger) => countMatches(sentence.toLowerCase(), trigger) > 0))
+        .slice(0, 2)
+        .map((sentence) => clip(sentence)),
+    }))
+    .sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+}
+
+export function extractTone(text: string): PersonaProfile["tone"] {
+  const lower = text.toLowerCase();
+  let label = "balanced";
+  let best = 0;
+  Object.entries(TONE_KEYWORDS).forEach(([tone, keywords]) => {
+    const hits = keywords.reduce((sum, keyword) => sum + countMatches(lower, keyword), 0);
+    if (hits > best) {
+      label = tone;
+      best = hits;
+    }
+  });
+
+  const sentences = splitSentences(text);
+  const descriptors: string[] = [];
+  if (sentences.length) {
+    const averageLength = words(text).length / sentences.length;
+    const share = (pattern: RegExp) => sentences.filter((sentence) => pattern.test(sentence)).length / sentences.length;
+    if (averageLength < 12) descriptors.push("concise");
+    if (averageLength > 25) descriptors.push("expansive");
+    if (share(/\?$/) > 0.15) descriptors.push("inquisitive");
+    if (share(/!$/) > 0.1) descriptors.push("emphatic");
+    if (share(/\b(i|my|me)\b/i) > 0.4) descriptors.push("personal");
+    if (share(/\b(we|our|us)\b/i) > 0.3) descriptors.push("collective");
+  }
+  return { label, descriptors };
+}
+
+export function extractVocabulary(text: string): PersonaProfile["vocabulary"] {
+  const all = words(text);
+  const sentences = splitSentences(text);
+  const counts = new Map<string, number>();
+  all
+    .filter((word) => word.length > 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .forEach((word) => counts.set(word, (counts.get(word) || 0) + 1));
+
+  return {
+    distinctiveWords: Array.from(counts.entries())
+      .filter(([, count]) => count > 1)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 15)
+      .map(([word]) => word),
+    averageSentenceLength: sentences.length ? round(all.length / sentences.length, 1) : 0,
+    lexicalDiversity: all.length ? round(new Set(all).size / all.length) : 0,
+  };
+}
+
+// Word sequences of three to five words the speaker repeats
+export function extractSignaturePhrases(text: string, limit = 8): string[] {
+  const counts = new Map<string, number>();
+  splitSentences(text).forEach((sentence) => {
+    const tokens = words(sentence);
+    for (let size = 3; size <= 5; size++) {
+      for (let i = 0; i + size <= tokens.length; i++) {
+        const gram = tokens.slice(i, i + size);
+        if (gram.filter((token) => !STOP_WORDS.has(token)).length < 2) continue;
+        const phrase = gram.join(" ");
+        counts.set(phrase, (counts.get(phrase) || 0) + 1);
+      }
+    }
+  });
+
+  const repeated = Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] * b[0].length - a[1] * a[0].length);
+  const chosen: string[] = [];
+  for (const [phrase] of repeated) {
+    // Skip fragments of a phrase that is already listed
+    if (chosen.some((existing) => existing.includes(phrase) || phrase.includes(existing))) continue;
+    chosen.push(phrase);
+    if (chosen.length >= limit) break;
+  }
+  return chosen;
+}
+
+function sentencesMatching(text: string, pattern: RegExp, limit: number): string[] {
+  const seen = new Set<string>();
+  return splitSentences(text)
+    .filter((sentence) => pattern.test(sentence))
+    .map((sentence) => clip(sentence, 300))
+    .filter((sentence) => !seen.has(sentence) && !!seen.add(sentence))
+    .slice(0, limit);
+}
+
+/**
+ * Word-boundary analysis of a corpus. Deterministic and offline; the LLM
+ * pass in PersonaProfileService builds on this result.
+ */
+export function extractHeuristicProfile(text: string, options: ExtractOptions = {}): PersonaProfile {
+  // How the persona speaks comes from their answers only
+  const spoken = spokenText(text);
+  return {
+    tone: extractTone(spoken),
+    vocabulary: extractVocabulary(spoken),
+    signaturePhrases: extractSignaturePhrases(spoken),
+    beliefs: sentencesMatching(spoken, BELIEF_PATTERN, 8),
+    biography: sentencesMatching(spoken, BIOGRAPHY_PATTERN, 8),
+    expertise: extractExpertise(text, options.personas),
+    source: "heuristic",
+    documentCount: options.documentCount ?? 0,
+    extractedAt: new Date().toISOString(),
+  };
+}
+
+export function profileStateOf(twin: DigitalTwin): ProfileState {
+  return ((twin.metadata as Record<string, any>) || {}).profile || {};
+}
+
+export function activeProfile(twin: DigitalTwin): PersonaProfile | undefined {
+  return profileStateOf(twin).active;
+}
+
+// Fields the model may refine; vocabulary statistics stay heuristic
+const llmProfileSchema = personaProfileSchema
+  .pick({ tone: true, signaturePhrases: true, beliefs: true, biography: true, expertise: true })
+  .partial();
+
+export class PersonaProfileService {
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider = createLLMProvider()) {
+    this.provider = provider;
+  }
+
+  setProvider(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Extract a profile from a twin's corpus. With useLlm (or
+   * PROFILE_LLM_ENABLED=true) the model refines the heuristic result; any
+   * failure falls back to the heuristic profile.
+   */
+  async extract(text: string, options: ExtractOptions = {}): Promise<PersonaProfile> {
+    const heuristic = extractHeuristicProfile(text, options);
+    const useLlm = options.useLlm ?? process.env.PROFILE_LLM_ENABLED === "true";
+    if (!useLlm || !text.trim()) return heuristic;
+
+    try {
+      return await this.refineWithLlm(text, heuristic);
+    } catch (error: any) {
+      console.warn(`[PersonaProfile] LLM pass failed, keeping heuristic profile: ${error?.message || error}`);
+      return heuristic;
+    }
+  }
+
+  private async refineWithLlm(text: string, heuristic: PersonaProfile): Promise<PersonaProfile> {
+    const corpus = text.length > MAX_LLM_CORPUS_CHARS ? `${text.slice(0, MAX_LLM_CORPUS_CHARS)}\n[...]` : text;
+    const reply = await this.provider.complete({
+      system: [
+        "You analyse source material about a person and describe how they speak and what they know.",
+        "Reply with a single JSON object and nothing else, with these optional keys:",
+        'tone {label, descriptors[]}, signaturePhrases[], beliefs[], biography[], expertise[{name, confidence 0-1, quotes[]}].',
+        "Quotes must be copied exactly from the material. Improve on the draft profile you are given.",
+      ].join("\n"),
+      messages: [
+        {
+          role: "user",
+          content: `Draft profile:\n${JSON.stringify({ ...heuristic, vocabulary: undefined })}\n\nMaterial:\n${corpus}`,
+        },
+      ],
+      maxTokens: 1500,
+      temperature: 0.2,
+    });
+
+    const json = reply.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) throw new Error("Reply did not contain a JSON object");
+    const parsed = llmProfileSchema.safeParse(JSON.parse(json));
+    if (!parsed.success) throw new Error(`Reply did not match the profile schema: ${parsed.error.message}`);
+    const refined = parsed.data as Partial<PersonaProfile>;
+
+    // Drop quotes the model did not take from the material
+    const normalized = text.replace(/\s+/g, " ").toLowerCase();
+    const expertise = refined.expertise?.map((entry) => ({
+      ...entry,
+      quotes: entry.quotes.filter((quote) => normalized.includes(quote.replace(/\.\.\.$/, "").replace(/\s+/g, " ").toLowerCase())),
+    }));
+
+    return {
+      ...heuristic,
+      ...refined,
+      ...(expertise && { expertise }),
+      source: "llm",
+      extractedAt: new Date().toISOString(),
+    };
+  }
+
+  async getState(twinId: number): Promise<ProfileState | undefined> {
+    const twin = await storage.getDigitalTwin(twinId);
+    return twin ? profileStateOf(twin) : undefined;
+  }
+
+  // Replace the draft, e.g. with a reviewer's edits
+  async saveDraft(twinId: number, draft: PersonaProfile): Promise<DigitalTwin | undefined> {
+    return this.writeState(twinId, (state) => ({ ...state, draft }));
+  }
+
+  async discardDraft(twinId: number): Promise<DigitalTwin | undefined> {
+    return this.writeState(twinId, ({ draft, ...state }) => state);
+  }
+
+  /**
+   * Promote the draft to the active profile and take the twin's
+   * capabilities and personality label from it. A draft without expertise
+   * keeps the current capabilities. Returns undefined when the twin does
+   * not exist and throws when there is no draft to approve.
+   */
+  async approve(twinId: number, reviewedBy: string): Promise<DigitalTwin | undefined> {
+    const twin = await storage.getDigitalTwin(twinId);
+    if (!twin) return undefined;
+    const { draft } = profileStateOf(twin);
+    if (!draft) throw new Error("There is no draft profile to approve");
+
+    const updated = await this.writeState(
+      twinId,
+      ({ draft, ...state }) => ({
+        ...state,
+        active: draft,
+        reviewedBy,
+        reviewedAt: new Date().toISOString(),
+      }),
+      {
+        capabilities: draft.expertise.length ? draft.expertise.map((entry) => entry.name) : twin.capabilities,
+        configuration: { ...((twin.configuration as Record<string, any>) || {}), personality: draft.tone.label },
+      }
+    );
+    if (updated) {
+      await twinRevisionService.record(updated, "update", { changedBy: reviewedBy, note: "Approved persona profile" });
+    }
+    return updated;
+  }
+
+  // Rewrite the profile state, optionally with other twin fields in the same update
+  private async writeState(twinId: number, change: (state: ProfileState) => ProfileState, fields: Partial<InsertDigitalTwin> = {}) {
+    const twin = await storage.getDigitalTwin(twinId);
+    if (!twin) return undefined;
+    const metadata = (twin.metadata as Record<string, any>) || {};
+    const updated = await storage.updateDigitalTwin(twinId, {
+      ...fields,
+      metadata: { ...metadata, profile: change(profileStateOf(twin)) },
+    } as Partial<InsertDigitalTwin>);
+    personaRegistry.invalidate();
+    return updated;
+  }
+}
+
+export const personaProfiles = new PersonaProfileService();
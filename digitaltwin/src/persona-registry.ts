@@ -0,0 +1,298 @@
+import { storage } from "./storage.js";
+import { twinRevisionService } from "./twin-revisions.js";
+import type { Agent, DigitalTwin, InsertAgent, InsertDigitalTwin } from "./schema.js";
+
+/**
+ * A persona as the rest of the app sees it. Personas live in the
+ * `digital_twins` table: slug, emoji, prompt and aliases are kept in
+ * metadata.persona, the voice in configuration.voice_id, and expertise in
+ * the capabilities column.
+ */
+export interface Persona {
+  twinId?: number;
+  slug: string;
+  name: string;
+  emoji: string;
+  description: string;
+  type: string;
+  expertise: string[];
+  voiceId?: string;
+  prompt?: string;
+  aliases: string[];
+  avatar: string;
+}
+
+export type PersonaSeed = Omit<Persona, "twinId">;
+
+const DEFAULT_EMOJI = "👤";
+// Twin lookups happen on every message; a short cache keeps that cheap
+const CACHE_TTL_MS = 30000;
+
+export const SEED_PERSONAS: PersonaSeed[] = [
+  {
+    slug: "albert-einstein",
+    name: "Albert Einstein",
+    emoji: "🧠",
+    description: "Theoretical physicist and innovator",
+    type: "Theoretical Physics",
+    expertise: ["Innovation", "Research", "Problem Solving", "Technical Vision", "Physics"],
+    voiceId: "e2odxVHlmLJ5GY1yuWNl",
+    prompt: "I am Albert Einstein. I approach problems with curiosity and deep thinking about the fundamental nature of reality.",
+    aliases: ["einstein"],
+    avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Einstein",
+  },
+  {
+    slug: "elon-musk",
+    name: "Elon Musk",
+    emoji: "🚀",
+    description: "Tech entrepreneur and visionary",
+    type: "Tech Entrepreneur",
+    expertise: ["Innovation", "Strategic Thinking", "Product Development", "Technical Vision", "Entrepreneurship"],
+    voiceId: "3ltnAVoovAIVA7uE9Zbz",
+    prompt: "I am Elon Musk. I think big, move fast, and focus on solutions that can scale to help humanity.",
+    aliases: ["musk"],
+    avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Musk",
+  },
+  {
+    slug: "emad-mostaque",
+    name: "Emad Mostaque",
+    emoji: "🤖",
+    description: "AI innovator and leader",
+    type: "AI Innovator",
+    expertise: ["Artificial Intelligence", "Leadership", "Technical Vision", "Innovation", "Strategic Thinking"],
+    voiceId: "OXihjRbFbxh4LfP9Wt5H",
+    prompt: "I am Emad Mostaque. I focus on democratizing AI and making advanced technology accessible to everyone.",
+    aliases: ["emad", "mostaque"],
+    avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Mostaque",
+  },
+  {
+    slug: "fei-fei-li",
+    name: "Fei-Fei Li",
+    emoji: "👩‍🔬",
+    description: "AI researcher and computer vision expert",
+    type: "AI Research",
+    expertise: ["Artificial Intelligence", "Research", "Technical Vision", "Innovation", "Computer Vision"],
+    voiceId: "JL6vl3xyRi3Ly7WoywNO",
+    prompt: "I am Fei-Fei Li. I work to advance AI research while ensuring it benefits humanity and addresses important societal challenges.",
+    // Common transcription and spelling variants
+    aliases: [
+      "feifei li",
+      "fi fi lee",
+      "fei fei lee",
+      "fei-fei lee",
+      "fifi li",
+      "fei fei le",
+      "fei-fei le",
+      "fe fe li",
+      "fe fe le",
+      "fi fi li",
+    ],
+    avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Li",
+  },
+  {
+    slug: "leonardo-da-vinci",
+    name: "Leonardo da Vinci",
+    emoji: "🎨",
+    description: "Renaissance innovator and polymath",
+    type: "Renaissance Innovator",
+    expertise: ["Innovation", "Art", "Engineering", "Research", "Design", "Design Thinking"],
+    voiceId: "iLVmqjzCGGvqtMCk6vVQ",
+    prompt: "I am Leonardo da Vinci. I see connections between art, science, and engineering, always observing and learning from nature.",
+    aliases: ["leonardo", "da vinci"],
+    avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=DaVinci",
+  },
+  {
+    slug: "steve-jobs",
+    name: "Steve Jobs",
+    emoji: "🍎",
+    description: "Tech visionary and design pioneer",
+    type: "Tech Visionary",
+    expertise: ["Innovation", "Product Development", "Design", "Leadership", "Strategic Thinking"],
+    voiceId: "RScb7njQ3VwA2nyCsZX4",
+    prompt: "I am Steve Jobs. I believe in the intersection of technology and liberal arts, creating products that are both functional and beautiful.",
+    aliases: [],
+    avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Jobs",
+  },
+  {
+    slug: "walt-disney",
+    name: "Walt Disney",
+    emoji: "🏰",
+    description: "Creative visionary and storyteller",
+    type: "Creative Visionary",
+    expertise: ["Creativity", "Innovation", "Storytelling", "Leadership", "Entertainment"],
+    voiceId: "1KmhFCCzy2hRrIDMEXFZ",
+    prompt: "I am Walt Disney. I believe in the power of imagination and storytelling to bring joy and wonder to people's lives.",
+    aliases: ["disney"],
+    avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Disney",
+  },
+];
+
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Read a persona out of a twin row; twins created from uploads get defaults
+export function personaFromTwin(twin: DigitalTwin): Persona {
+  const meta = ((twin.metadata as Record<string, any>) || {}).persona || {};
+  const configuration = (twin.configuration as Record<string, any>) || {};
+  return {
+    twinId: twin.id,
+    slug: meta.slug || slugify(twin.name),
+    name: twin.name,
+    emoji: meta.emoji || DEFAULT_EMOJI,
+    description: twin.description || "",
+    type: twin.type,
+    expertise: twin.capabilities || [],
+    voiceId: configuration.voice_id,
+    prompt: meta.prompt,
+    aliases: meta.aliases || [],
+    avatar: twin.avatar,
+  };
+}
+
+// The twin row that stores a seed persona
+export function twinFromPersona(persona: PersonaSeed): InsertDigitalTwin {
+  return {
+    name: persona.name,
+    description: persona.description,
+    type: persona.type,
+    status: "active",
+    avatar: persona.avatar,
+    capabilities: persona.expertise,
+    metadata: {
+      persona: {
+        slug: persona.slug,
+        emoji: persona.emoji,
+        prompt: persona.prompt,
+        aliases: persona.aliases,
+      },
+    },
+    configuration: {
+      personality: "balanced",
+      voice_id: persona.voiceId,
+      voice_settings: {
+        stability: 0.75,
+        similarityBoost: 0.75,
+        style: 0.5,
+        speakerBoost: true,
+      },
+    },
+  } as InsertDigitalTwin;
+}
+
+// Agent rows mirror personas for the dashboard and task worker
+export function agentFromPersona(persona: PersonaSeed, id?: number): Agent {
+  return {
+    id,
+    name: persona.name,
+    type: persona.type,
+    status: "active",
+    capabilities: persona.expertise,
+    avatar: persona.avatar,
+    metrics: { requests_handled: 0, success_rate: 0, avg_response_time: 0 },
+  } as Agent;
+}
+
+function matches(persona: Persona, query: string): boolean {
+  const normalized = query.toLowerCase().trim();
+  const slug = slugify(query);
+  return (
+    persona.slug === slug ||
+    slugify(persona.name) === slug ||
+    persona.aliases.some((alias) => alias.toLowerCase() === normalized || slugify(alias) === slug)
+  );
+}
+
+export class PersonaRegistry {
+  private cache: { personas: Persona[]; twins: Map<number, DigitalTwin>; loadedAt: number } | null = null;
+
+  /**
+   * All active personas. Falls back to the seed data when the twins table
+   * cannot be read so chat keeps working during a database outage.
+   */
+  async list(): Promise<Persona[]> {
+    return (await this.load()).personas;
+  }
+
+  // A number is a twin id; a string is a slug, display name or alias, so a
+  // twin called "1984" is never mistaken for the twin with that id
+  async resolve(query: string | number): Promise<Persona | undefined> {
+    const personas = await this.list();
+    if (typeof query === "number") {
+      return personas.find((persona) => persona.twinId === query);
+    }
+    return personas.find((persona) => matches(persona, query.trim()));
+  }
+
+  async getTwin(query: string | number): Promise<DigitalTwin | undefined> {
+    const persona = await this.resolve(query);
+    if (!persona?.twinId) return undefined;
+    return (await this.load()).twins.get(persona.twinId);
+  }
+
+  // Call after any change to the digital_twins table
+  invalidate() {
+    this.cache = null;
+  }
+
+  /**
+   * Make sure every seed persona has a twin row and an agent row. Existing
+   * rows are left as they are so edits made through the API survive restarts.
+   */
+  async seed(): Promise<void> {
+    const twins = await storage.getDigitalTwins();
+    const agents = await storage.getAgents();
+
+    for (const seed of SEED_PERSONAS) {
+      const twin = twins.find((t) => matches(personaFromTwin(t), seed.slug));
+      if (!twin) {
+        const created = await storage.createDigitalTwin(twinFromPersona(seed));
+        await twinRevisionService.record(created, "create", { changedBy: "seed" });
+        console.log(`Created digital twin: ${seed.name}`);
+      } else if (!((twin.metadata as Record<string, any>) || {}).persona) {
+        // Twin was created from an upload before the registry existed
+        const defaults = twinFromPersona(seed) as Record<string, any>;
+        const updated = await storage.updateDigitalTwin(twin.id, {
+          metadata: { ...((twin.metadata as Record<string, any>) || {}), ...defaults.metadata },
+          configuration: {
+            ...((twin.configuration as Record<string, any>) || {}),
+            voice_id: seed.voiceId,
+          },
+        } as Partial<InsertDigitalTwin>);
+        if (updated) await twinRevisionService.record(updated, "update", { changedBy: "seed" });
+        console.log(`Attached persona details to digital twin: ${seed.name}`);
+      }
+
+      if (!agents.some((agent) => agent.name === seed.name)) {
+        const { id: _id, metrics: _metrics, ...fields } = agentFromPersona(seed);
+        const agent: InsertAgent = fields;
+        await storage.createAgent(agent);
+        console.log(`Created agent: ${seed.name}`);
+      }
+    }
+    this.invalidate();
+  }
+
+  private async load() {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache;
+    }
+    try {
+      const rows = (await storage.getDigitalTwins()).filter((twin) => twin.status !== "archived");
+      this.cache = {
+        personas: rows.map(personaFromTwin),
+        twins: new Map(rows.map((twin) => [twin.id, twin])),
+        loadedAt: Date.now(),
+      };
+    } catch (error) {
+      console.error("[PersonaRegistry] Could not load digital twins, using seed personas:", error);
+      return { personas: SEED_PERSONAS.map((seed) => ({ ...seed })), twins: new Map<number, DigitalTwin>(), loadedAt: 0 };
+    }
+    return this.cache;
+  }
+}
+
+export const personaRegistry = new PersonaRegistry();
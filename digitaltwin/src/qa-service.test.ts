@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { missingKeyTerms, parseQaPairs, qaService, questionSimilarity } from "./qa-service.js";
+
+describe("parseQaPairs", () => {
+  it("splits numbered questions and answers and skips unanswered questions", () => {
+    const pairs = parseQaPairs("Q1: Why Apple?\nA1: To build tools.\n\nQ2: Unanswered?\nQ3: Why black turtlenecks?\nA3: Habit.");
+    assert.deepEqual(pairs, [
+      { question: "Why Apple?", answer: "To build tools." },
+      { question: "Why black turtlenecks?", answer: "Habit." },
+    ]);
+  });
+});
+
+describe("questionSimilarity", () => {
+  it("scores identical wording and contraction or suffix variants as verbatim", () => {
+    assert.equal(questionSimilarity("What is your design philosophy?", "what is your design philosophy"), 1);
+    assert.equal(questionSimilarity("What's your design philosophy?", "What is your design philosophy?"), 1);
+    assert.equal(questionSimilarity("How do you approach designing?", "How do you approach design?"), 1);
+  });
+
+  it("scores an extra word or two between the guided and verbatim thresholds", () => {
+    const score = questionSimilarity("What is your design philosophy for products?", "What is your design philosophy?");
+    assert.ok(score >= 0.6 && score < 0.9, `scored ${score}`);
+  });
+
+  it("scores questions that differ in one key word as a guided match", () => {
+    // Which is why recall also checks key terms
+    assert.equal(questionSimilarity("Did you start Apple?", "Did you leave Apple?"), 0.667);
+  });
+});
+
+describe("missingKeyTerms", () => {
+  it("lists the question's content words the message lacks, ignoring auxiliaries", () => {
+    assert.deepEqual(missingKeyTerms("Did you leave Apple?", "Did you start Apple?"), ["start"]);
+    assert.deepEqual(missingKeyTerms("So you started Apple in a garage?", "Did you start Apple?"), []);
+    assert.deepEqual(missingKeyTerms("Why did you start Apple?", "How did you start Apple?"), ["how"]);
+  });
+});
+
+describe("QaService.findAnswer", () => {
+  let nextTwinId = 9000;
+
+  async function twinWith(...questions: string[]): Promise<number> {
+    const twinId = nextTwinId++;
+    for (const question of questions) {
+      await qaService.create(twinId, { question, answer: `Answer to: ${question}` });
+    }
+    return twinId;
+  }
+
+  it("recalls the authored answer verbatim for the same question", async () => {
+    const twinId = await twinWith("What is your design philosophy?", "Why did you start Apple?");
+    const recall = await qaService.findAnswer(twinId, "What's your design philosophy?");
+    assert.equal(recall?.pair.question, "What is your design philosophy?");
+    assert.equal(recall?.verbatim, true);
+  });
+
+  it("guides the reply for a close but not identical question", async () => {
+    const twinId = await twinWith("What is your design philosophy?");
+    const recall = await qaService.findAnswer(twinId, "What is your design philosophy for products?");
+    assert.ok(recall);
+    assert.equal(recall.verbatim, false);
+    assert.ok(recall.score >= 0.6 && recall.score < 0.9);
+  });
+
+  it("ignores a near miss that changes a key word", async () => {
+    const twinId = await twinWith("Did you start Apple?");
+    assert.equal(await qaService.findAnswer(twinId, "Did you leave Apple?"), undefined);
+    // Extra words are fine as long as the authored question's key terms are there
+    assert.equal((await qaService.findAnswer(twinId, "How did you start Apple?"))?.verbatim, false);
+  });
+
+  it("tells apart authored questions that differ in one key word", async () => {
+    const twinId = await twinWith("Did you leave Apple?", "Did you start Apple?");
+    assert.equal((await qaService.findAnswer(twinId, "Did you start Apple?"))?.pair.question, "Did you start Apple?");
+    assert.equal((await qaService.findAnswer(twinId, "Did you leave Apple?"))?.pair.question, "Did you leave Apple?");
+  });
+
+  it("returns nothing below the match threshold", async () => {
+    const twinId = await twinWith("What is your design philosophy?");
+    assert.equal(await qaService.findAnswer(twinId, "Design philosophy aside, what music did you listen to growing up?"), undefined);
+    assert.equal(await qaService.findAnswer(await twinWith(), "What is your design philosophy?"), undefined);
+  });
+});
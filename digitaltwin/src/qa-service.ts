@@ -0,0 +1,141 @@
+import { storage } from "./storage.js";
+import { STOP_WORDS, tokenize } from "./knowledge-base.js";
+import type { InsertTwinQaPair, TwinQaPair } from "./schema.js";
+
+export interface QaMatch {
+  pair: TwinQaPair;
+  score: number;
+}
+
+export interface QaRecall extends QaMatch {
+  // Close enough to reply with the authored answer as is
+  verbatim: boolean;
+}
+
+// Questions this similar to an authored one get its answer word for word;
+// above QA_MATCH_THRESHOLD the model is asked to stay close to it
+const VERBATIM_SCORE = 0.9;
+const DEFAULT_MATCH_THRESHOLD = 0.6;
+
+// Auxiliaries that don't change what a question is about
+const AUXILIARIES = new Set(["did", "does", "can", "could", "would", "will", "should"]);
+
+/**
+ * Split "Q1: ... A1: ..." material into question/answer pairs. Questions
+ * without an answer are skipped.
+ */
+export function parseQaPairs(content: string): { question: string; answer: string }[] {
+  const qaPattern = /Q\d+:\s*([\s\S]*?)\s*(?:A\d+:\s*([\s\S]*?))?\s*(?=Q\d+:|$)/g;
+  return Array.from(content.matchAll(qaPattern))
+    .map((match) => ({ question: match[1]?.trim() || "", answer: match[2]?.trim() || "" }))
+    .filter((pair) => pair.question && pair.answer);
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Contractions are dropped and suffixes crudely stemmed so "what's your
+// design" meets "what is your designing"
+function terms(text: string): Set<string> {
+  return new Set(
+    tokenize(text)
+      .map((token) => token.replace(/'[a-z]+$/, ""))
+      .filter((token) => !STOP_WORDS.has(token))
+      .map((token) => token.replace(/(?:ing|ed|es|s)$/, (suffix, offset) => (offset > 3 ? "" : suffix)))
+  );
+}
+
+/**
+ * Similarity of two questions between 0 and 1: identical wording scores 1,
+ * otherwise the Dice coefficient of their content words.
+ */
+export function questionSimilarity(a: string, b: string): number {
+  if (normalize(a) === normalize(b)) return 1;
+  const left = terms(a);
+  const right = terms(b);
+  if (!left.size || !right.size) return 0;
+  let shared = 0;
+  left.forEach((term) => right.has(term) && shared++);
+  return Math.round(((2 * shared) / (left.size + right.size)) * 1000) / 1000;
+}
+
+/**
+ * Key terms of an authored question that `message` lacks: its content words
+ * other than auxiliaries. A recall needs none missing, so "Did you leave
+ * Apple?" never gets the answer to "Did you start Apple?" even though most
+ * of their words are shared.
+ */
+export function missingKeyTerms(message: string, question: string): string[] {
+  const asked = terms(message);
+  return Array.from(terms(question)).filter((term) => !AUXILIARIES.has(term) && !asked.has(term));
+}
+
+export class QaService {
+  private matchThreshold = parseFloat(process.env.QA_MATCH_THRESHOLD || String(DEFAULT_MATCH_THRESHOLD));
+
+  async list(twinId: number): Promise<TwinQaPair[]> {
+    return storage.getTwinQaPairs(twinId);
+  }
+
+  /**
+   * Pairs ranked against a free-text query. The question counts fully; the
+   * answer counts for the share of query terms it contains, slightly discounted.
+   */
+  async search(twinId: number, query: string, limit = 10): Promise<QaMatch[]> {
+    const queryTerms = terms(query);
+    const pairs = await storage.getTwinQaPairs(twinId);
+    return pairs
+      .map((pair) => {
+        const answerTerms = terms(pair.answer);
+        const inAnswer = queryTerms.size
+          ? Array.from(queryTerms).filter((term) => answerTerms.has(term)).length / queryTerms.size
+          : 0;
+        return { pair, score: Math.max(questionSimilarity(query, pair.question), Math.round(inAnswer * 900) / 1000) };
+      })
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // The authored pair whose question best matches `message` and whose key terms it shares, if close enough
+  async findAnswer(twinId: number, message: string): Promise<QaRecall | undefined> {
+    const pairs = await storage.getTwinQaPairs(twinId);
+    let best: QaMatch | undefined;
+    for (const pair of pairs) {
+      if (missingKeyTerms(message, pair.question).length) continue;
+      const score = questionSimilarity(message, pair.question);
+      if (!best || score > best.score) best = { pair, score };
+    }
+    if (!best || best.score < this.matchThreshold) return undefined;
+    return { ...best, verbatim: best.score >= VERBATIM_SCORE };
+  }
+
+  async create(twinId: number, pair: { question: string; answer: string }, documentId?: number): Promise<TwinQaPair> {
+    return storage.createTwinQaPair({ twinId, documentId: documentId ?? null, ...pair } as InsertTwinQaPair);
+  }
+
+  // Store every pair found in a document's text; returns how many were stored
+  async importFromDocument(twinId: number, documentId: number, content: string): Promise<number> {
+    const pairs = parseQaPairs(content);
+    for (const pair of pairs) {
+      await this.create(twinId, pair, documentId);
+    }
+    if (pairs.length) console.log(`[QaService] Stored ${pairs.length} Q&A pairs for twin ${twinId}`);
+    return pairs.length;
+  }
+
+  async update(twinId: number, pairId: number, updates: { question?: string; answer?: string }): Promise<TwinQaPair | undefined> {
+    return storage.updateTwinQaPair(twinId, pairId, updates as Partial<InsertTwinQaPair>);
+  }
+
+  async remove(twinId: number, pairId: number): Promise<boolean> {
+    return storage.deleteTwinQaPair(twinId, pairId);
+  }
+}
+
+export const qaService = new QaService();
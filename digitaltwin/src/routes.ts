@@ -1,42 +1,75 @@
 import express, { Express } from "express";
 import { createServer, Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
+import { WebSocketServer } from "ws";
 import multer from "multer";
 import { z } from "zod";
 import bodyParser from "body-parser";
 import cors from "cors";
 import { storage } from "./storage.js";
 import { documentService } from "./document-service.js";
+import { DocumentError, detectFormat } from "./document-extractors.js";
+import { INGESTION_JOBS_NOTE, ingestionJobs } from "./ingestion-jobs.js";
+import { personaProfiles } from "./persona-profile.js";
+import { qaService } from "./qa-service.js";
 import { voiceService } from "./voice-service.js";
 import { zoomService } from "./zoom-service.js";
+import { taskWorker } from "./task-worker.js";
+import { debateService } from "./debate-service.js";
+import type { GenerateDebateOptions } from "./debate-generator.js";
+import { streamChat, streamDebate, type StreamEvent } from "./stream-session.js";
+import { realtimeHub } from "./ws-hub.js";
+import { knowledgeBase } from "./knowledge-base.js";
+import { slackInstallations } from "./slack-installations.js";
+import { twinRevisionService } from "./twin-revisions.js";
+import { personaRegistry, SEED_PERSONAS, agentFromPersona, twinFromPersona } from "./persona-registry.js";
 import {
   insertAgentSchema,
+  insertTaskSchema,
   insertDigitalTwinSchema,
   insertConversationSchema,
+  taskStatusSchema,
+  taskPrioritySchema,
+  twinStatusSchema,
+  twinConfigurationPatchSchema,
+  personaProfileSchema,
+  canTransitionTask,
+  TASK_STATUS_TRANSITIONS,
   type Agent,
   type Task,
   type DigitalTwin,
   type Conversation,
+  type PersonaProfile,
   type InsertAgent,
   type InsertTask,
   type InsertDigitalTwin,
   type InsertConversation,
+  type TaskFilter,
+  type TaskStatus,
 } from "./schema.js";
 
 // This is just a TypeScript type declaration to avoid errors
 // The actual implementation will use the imported storage
 interface StorageInterface {
   getAgents(): Promise<any[]>;
+  getAgent(id: number): Promise<any | undefined>;
   updateAgentStatus(id: number, status: string): Promise<any>;
   updateAgentMetrics(id: number, metrics: any): Promise<any>;
   getDigitalTwins(): Promise<any[]>;
+  getDigitalTwin(id: number): Promise<any | undefined>;
   createDigitalTwin(data: any): Promise<any>;
+  updateDigitalTwin(id: number, updates: any, expectedUpdatedAt?: Date): Promise<any | undefined>;
+  deleteDigitalTwin(id: number): Promise<boolean>;
   getConversations(): Promise<any[]>;
   getConversation(id: number): Promise<any | null>;
   createConversation(data: any): Promise<any>;
   getConversationsByParticipant(name: string): Promise<any[]>;
   cleanupDuplicateAgents(): Promise<number>;
   createAgent(data: any): Promise<any>;
+  getTasks(filter?: TaskFilter): Promise<any[]>;
+  getTask(id: number): Promise<any | undefined>;
+  createTask(data: any): Promise<any>;
+  updateTask(id: number, updates: any, expectedStatus?: string): Promise<any | undefined>;
+  deleteTask(id: number): Promise<boolean>;
 }
 
 // Fallback storage implementation for when imports fail
@@ -44,76 +77,10 @@ function createFallbackStorage() {
   console.log("Using fallback storage implementation");
   return {
     getAgents: async () => {
-      return [
-        {
-          id: 1,
-          name: "Albert Einstein",
-          type: "Theoretical Physics",
-          capabilities: ["Innovation", "Research", "Problem Solving"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Einstein",
-          status: "active",
-        },
-        {
-          id: 2,
-          name: "Elon Musk",
-          type: "Tech Entrepreneur",
-          capabilities: [
-            "Innovation",
-            "Strategic Thinking",
-            "Product Development",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Musk",
-          status: "active",
-        },
-        {
-          id: 3,
-          name: "Emad Mostaque",
-          type: "AI Innovator",
-          capabilities: [
-            "Artificial Intelligence",
-            "Leadership",
-            "Technical Vision",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Mostaque",
-          status: "active",
-        },
-        {
-          id: 4,
-          name: "Fei-Fei Li",
-          type: "AI Research",
-          capabilities: [
-            "Artificial Intelligence",
-            "Research",
-            "Technical Vision",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Li",
-          status: "active",
-        },
-        {
-          id: 5,
-          name: "Leonardo da Vinci",
-          type: "Renaissance Innovator",
-          capabilities: ["Innovation", "Art", "Engineering"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=DaVinci",
-          status: "active",
-        },
-        {
-          id: 6,
-          name: "Steve Jobs",
-          type: "Tech Visionary",
-          capabilities: ["Innovation", "Product Development", "Design"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Jobs",
-          status: "active",
-        },
-        {
-          id: 7,
-          name: "Walt Disney",
-          type: "Creative Visionary",
-          capabilities: ["Creativity", "Innovation", "Storytelling"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Disney",
-          status: "active",
-        },
-      ];
+      return SEED_PERSONAS.map((persona, i) => agentFromPersona(persona, i + 1));
+    },
+    getAgent: async (id: number) => {
+      return undefined;
     },
     updateAgentStatus: async (id: number, status: string) => {
       console.log(`Updating agent ${id} status to ${status}`);
@@ -124,22 +91,21 @@ function createFallbackStorage() {
       return { id, metrics };
     },
     getDigitalTwins: async () => {
-      return [
-        {
-          id: 1,
-          name: "Einstein Digital Twin",
-          description: "AI-powered digital twin of Albert Einstein",
-          type: "AI Assistant",
-          status: "active",
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Einstein",
-          capabilities: ["Physics", "Innovation", "Problem Solving"],
-        },
-      ];
+      return SEED_PERSONAS.map((persona, i) => ({ id: i + 1, ...twinFromPersona(persona) }));
+    },
+    getDigitalTwin: async (id: number) => {
+      return undefined;
     },
     createDigitalTwin: async (data: any) => {
       console.log("Creating digital twin:", data);
       return { id: Date.now(), ...data };
     },
+    updateDigitalTwin: async (id: number, updates: any, expectedUpdatedAt?: Date) => {
+      return undefined;
+    },
+    deleteDigitalTwin: async (id: number) => {
+      return false;
+    },
     getConversations: async () => {
       return [];
     },
@@ -160,6 +126,22 @@ function createFallbackStorage() {
       console.log("Creating agent:", data);
       return { id: Date.now(), ...data };
     },
+    getTasks: async (filter?: TaskFilter) => {
+      return [];
+    },
+    getTask: async (id: number) => {
+      return undefined;
+    },
+    createTask: async (data: any) => {
+      console.log("Creating task:", data);
+      return { id: Date.now(), status: "pending", ...data };
+    },
+    updateTask: async (id: number, updates: any) => {
+      return undefined;
+    },
+    deleteTask: async (id: number) => {
+      return false;
+    },
   };
 }
 
@@ -172,13 +154,138 @@ try {
   actualStorage = createFallbackStorage();
 }
 
+// PDFs and long transcripts are larger than Word files; MAX_UPLOAD_MB raises the cap
+const MAX_UPLOAD_MB = parseInt(process.env.MAX_UPLOAD_MB || "20", 10);
+
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
+    fileSize: MAX_UPLOAD_MB * 1024 * 1024,
   },
 });
 
+// Run a multer middleware and turn its errors into 4xx JSON responses
+function acceptUpload(middleware: express.RequestHandler): express.RequestHandler {
+  return (req, res, next) => {
+    middleware(req, res, (error?: any) => {
+      if (!error) return next();
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        res.status(413).json({ error: `File is larger than the ${MAX_UPLOAD_MB} MB limit` });
+        return;
+      }
+      res.status(400).json({ error: error.message || "Invalid upload" });
+    });
+  };
+}
+
+// Body schema for creating tasks; new tasks always start as "pending"
+const createTaskSchema = insertTaskSchema
+  .omit({ id: true, createdAt: true, updatedAt: true, status: true })
+  .extend({
+    priority: taskPrioritySchema.optional(),
+    dueDate: z.coerce.date().nullable().optional(),
+  });
+
+const updateTaskSchema = createTaskSchema
+  .partial()
+  .extend({ status: taskStatusSchema.optional() });
+
+interface TaskBody {
+  title?: string;
+  description?: string | null;
+  status?: TaskStatus;
+  priority?: string;
+  dueDate?: Date | null;
+  assignedAgentId?: number | null;
+  assignedTwinId?: number | null;
+  metadata?: Record<string, unknown>;
+}
+
+const taskQuerySchema = z.object({
+  status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  agentId: z.coerce.number().int().optional(),
+  twinId: z.coerce.number().int().optional(),
+  dueAfter: z.coerce.date().optional(),
+  dueBefore: z.coerce.date().optional(),
+});
+
+// Every field is optional except updatedAt, the version the client last read
+const updateDigitalTwinSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    description: z.string().max(5000).nullable().optional(),
+    type: z.string().trim().min(1).max(200).optional(),
+    status: twinStatusSchema.optional(),
+    avatar: z.string().url().optional(),
+    capabilities: z.array(z.string().trim().min(1)).max(50).optional(),
+    configuration: twinConfigurationPatchSchema.optional(),
+    updatedAt: z.coerce.date(),
+    // Recorded on the revision this update creates
+    note: z.string().max(500).optional(),
+  })
+  .strict();
+
+interface DigitalTwinBody {
+  name?: string;
+  description?: string | null;
+  type?: string;
+  status?: string;
+  avatar?: string;
+  capabilities?: string[];
+  configuration?: Record<string, any>;
+  updatedAt: Date;
+  note?: string;
+}
+
+const pinRevisionSchema = z.object({
+  revision: z.number().int().positive(),
+});
+
+const qaPairSchema = z.object({
+  question: z.string().trim().min(1).max(2000),
+  answer: z.string().trim().min(1).max(10000),
+}).strict();
+
+const updateQaPairSchema = qaPairSchema
+  .partial()
+  .refine((pair) => pair.question !== undefined || pair.answer !== undefined, {
+    message: "Provide a question or an answer",
+  });
+
+const extractProfileSchema = z.object({
+  useLlm: z.boolean().optional(),
+});
+
+// Reviewers edit the profile content; provenance fields are set by the server
+const profileDraftSchema = personaProfileSchema.omit({ source: true, documentCount: true, extractedAt: true }).strict();
+
+// Who made a change, as reported by the admin UI; there is no auth layer yet
+function changedBy(req: express.Request): string {
+  const header = req.header("x-changed-by");
+  return header ? header.trim().slice(0, 100) : "api";
+}
+
+const createDebateSchema = z.object({
+  topic: z.string().trim().min(1).max(500),
+  speakers: z.array(z.string().min(1)).min(2).max(6).optional(),
+  rounds: z.number().int().min(1).max(10).optional(),
+  includeAudio: z.boolean().optional(),
+  moderator: z.union([z.boolean(), z.string().min(1)]).optional(),
+  pauseMs: z.number().int().min(0).max(5000).optional(),
+});
+
+// Returns an error message if a referenced agent or twin does not exist
+async function validateTaskAssignment(data: TaskBody): Promise<string | null> {
+  if (data.assignedAgentId != null && !(await actualStorage.getAgent(data.assignedAgentId))) {
+    return `Agent ${data.assignedAgentId} not found`;
+  }
+  if (data.assignedTwinId != null && !(await actualStorage.getDigitalTwin(data.assignedTwinId))) {
+    return `Digital twin ${data.assignedTwinId} not found`;
+  }
+  return null;
+}
+
 function isFallbackResponse(
   result: any
 ): result is { fallback: true; text: string; persona?: string } {
@@ -233,6 +340,7 @@ export function registerRoutes(app: Express): Server {
         "Accept",
         "Authorization",
         "Cache-Control",
+        "X-Changed-By",
       ],
       exposedHeaders: ["Content-Length", "X-Requested-With"],
       preflightContinue: false,
@@ -272,7 +380,7 @@ export function registerRoutes(app: Express): Server {
     );
     res.header(
       "Access-Control-Allow-Headers",
-      "Origin, X-Requested-With, Content-Type, Accept, Authorization, Cache-Control"
+      "Origin, X-Requested-With, Content-Type, Accept, Authorization, Cache-Control, X-Changed-By"
     );
     res.header("Access-Control-Allow-Credentials", "true");
 
@@ -289,77 +397,10 @@ export function registerRoutes(app: Express): Server {
   const httpServer = createServer(app);
   const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
 
-  // Add initial digital twin agents only if they don't already exist
+  // Seed the core personas as digital twins and agents if they don't already exist
   (async () => {
     try {
-      // First check if any agents already exist
       const existingAgents = await actualStorage.getAgents();
-      const existingNames = existingAgents.map((agent) => agent.name);
-
-      // Define our 7 core digital twins
-      const digitalTwins = [
-        {
-          name: "Albert Einstein",
-          type: "Theoretical Physics",
-          capabilities: ["Innovation", "Research", "Problem Solving"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Einstein",
-          status: "active",
-        },
-        {
-          name: "Elon Musk",
-          type: "Tech Entrepreneur",
-          capabilities: [
-            "Innovation",
-            "Strategic Thinking",
-            "Product Development",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Musk",
-          status: "active",
-        },
-        {
-          name: "Emad Mostaque",
-          type: "AI Innovator",
-          capabilities: [
-            "Artificial Intelligence",
-            "Leadership",
-            "Technical Vision",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Mostaque",
-          status: "active",
-        },
-        {
-          name: "Fei-Fei Li",
-          type: "AI Research",
-          capabilities: [
-            "Artificial Intelligence",
-            "Research",
-            "Technical Vision",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Li",
-          status: "active",
-        },
-        {
-          name: "Leonardo da Vinci",
-          type: "Renaissance Innovator",
-          capabilities: ["Innovation", "Art", "Engineering"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=DaVinci",
-          status: "active",
-        },
-        {
-          name: "Steve Jobs",
-          type: "Tech Visionary",
-          capabilities: ["Innovation", "Product Development", "Design"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Jobs",
-          status: "active",
-        },
-        {
-          name: "Walt Disney",
-          type: "Creative Visionary",
-          capabilities: ["Creativity", "Innovation", "Storytelling"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Disney",
-          status: "active",
-        },
-      ];
 
       // Clean up duplicates first if they exist
       if (existingAgents.length > 0) {
@@ -367,23 +408,7 @@ export function registerRoutes(app: Express): Server {
         console.log("Cleaned up any duplicate agents");
       }
 
-      // Add only the twins that don't exist yet
-      for (const twin of digitalTwins) {
-        if (!existingNames.includes(twin.name)) {
-          // Provide all required fields for the agents table
-          await actualStorage.createAgent({
-            name: twin.name,
-            type: twin.type,
-            capabilities: twin.capabilities,
-            avatar: twin.avatar,
-            status: twin.status,
-          });
-          console.log(`Created agent: ${twin.name}`);
-        } else {
-          console.log(`Agent already exists: ${twin.name}`);
-        }
-      }
-
+      await personaRegistry.seed();
       console.log("Digital twin initialization complete");
     } catch (error) {
       console.error("Error during agent initialization:", error);
@@ -391,40 +416,57 @@ export function registerRoutes(app: Express): Server {
     }
   })();
 
-  // WebSocket connection handling
-  wss.on("connection", (ws) => {
-    console.log("New WebSocket connection established");
-
-    const broadcast = () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        actualStorage.getAgents().then((agents: Agent[]) => {
-          ws.send(JSON.stringify({ type: "agents_update", data: agents }));
-        });
-      }
-    };
-
-    // Send initial data
-    broadcast();
+  const publishAgents = async () => {
+    try {
+      const agents = await actualStorage.getAgents();
+      realtimeHub.publish("agents", { type: "agents_update", data: agents });
+    } catch (error) {
+      console.error("Error broadcasting agent update:", error);
+    }
+  };
 
-    ws.on("message", async (message) => {
-      const data = JSON.parse(message.toString());
+  const publishTask = (task: any) => {
+    realtimeHub.publish(`task:${task.id}`, { type: "task_update", data: task });
+  };
 
-      if (data.type === "update_status") {
-        await actualStorage.updateAgentStatus(data.agentId, data.status);
-        broadcast();
-      } else if (data.type === "update_metrics") {
-        await actualStorage.updateAgentMetrics(data.agentId, data.metrics);
-        broadcast();
-      }
+  // Push changes made by background work to subscribed clients
+  taskWorker.on("agent_updated", publishAgents);
+  taskWorker.on("task_updated", publishTask);
+  ingestionJobs.on("job_updated", (job) => {
+    realtimeHub.publish(`job:${job.id}`, { type: "job_update", data: job });
+  });
+  debateService.on("debate_updated", (conversation) => {
+    realtimeHub.publish(`conversation:${conversation.id}`, {
+      type: "conversation_update",
+      data: conversation,
     });
-
-    ws.on("error", console.error);
   });
 
+  // WebSocket connection handling; messages arrive validated by the hub
+  realtimeHub.attach(
+    wss,
+    (message, reply) => {
+      if (message.type === "start_chat") {
+        // Stream a single persona reply token by token
+        streamChat(message, reply as (event: StreamEvent) => void);
+      } else if (message.type === "start_debate") {
+        // Stream each debate turn as it is generated
+        streamDebate(message, reply as (event: StreamEvent) => void);
+      }
+    },
+    (ws) => {
+      // Send initial data
+      actualStorage
+        .getAgents()
+        .then((agents: Agent[]) => realtimeHub.send(ws, { type: "agents_update", data: agents }))
+        .catch((error) => console.error("Error sending initial agents:", error));
+    }
+  );
+
   // Document upload endpoint
   app.post(
     "/api/upload-twin-document",
-    upload.single("document"),
+    acceptUpload(upload.single("document")),
     async (req, res) => {
       try {
         if (!req.file) {
@@ -438,17 +480,48 @@ export function registerRoutes(app: Express): Server {
           return;
         }
 
-        const content = await documentService.processWordDocument(req.file);
-        await documentService.createDigitalTwin(content, name);
+        // Reject unsupported files up front; everything else happens in the job
+        detectFormat(req.file.buffer, req.file.mimetype, req.file.originalname);
+        const job = ingestionJobs.enqueue(req.file, { twinName: name }, changedBy(req));
 
-        res.json({ message: "Digital twin created successfully" });
+        res.status(202).json({ message: "Document queued for processing", note: INGESTION_JOBS_NOTE, jobId: job.id, job });
       } catch (error) {
+        if (error instanceof DocumentError) {
+          res.status(error.status).json({ error: error.message, code: error.code });
+          return;
+        }
         console.error("Error processing document:", error);
         res.status(500).json({ error: "Failed to process document" });
       }
     }
   );
 
+  app.get("/api/ingestion-jobs", (_req, res) => {
+    res.json(ingestionJobs.list());
+  });
+
+  app.get("/api/ingestion-jobs/:id", (req, res) => {
+    const job = ingestionJobs.get(parseInt(req.params.id));
+    if (!job) {
+      res.status(404).json({ error: "Ingestion job not found" });
+      return;
+    }
+    res.json(job);
+  });
+
+  app.post("/api/ingestion-jobs/:id/retry", (req, res) => {
+    try {
+      const job = ingestionJobs.retry(parseInt(req.params.id));
+      if (!job) {
+        res.status(404).json({ error: "Ingestion job not found" });
+        return;
+      }
+      res.status(202).json(job);
+    } catch (error: any) {
+      res.status(409).json({ error: error.message });
+    }
+  });
+
   //Synthesize Route with fallback
   app.post("/api/synthesize", jsonParser, async (req, res) => {
     try {
@@ -500,10 +573,11 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Digital Twins endpoints
-  app.get("/api/digital-twins", async (_req, res) => {
+  // Digital Twins endpoints; archived twins are listed only on request
+  app.get("/api/digital-twins", async (req, res) => {
     const twins = await actualStorage.getDigitalTwins();
-    res.json(twins);
+    const includeArchived = req.query.includeArchived === "true";
+    res.json(includeArchived ? twins : twins.filter((twin) => twin.status !== "archived"));
   });
 
   app.post("/api/digital-twins", async (req, res) => {
@@ -513,8 +587,526 @@ export function registerRoutes(app: Express): Server {
       return;
     }
 
-    const twin = await actualStorage.createDigitalTwin(result.data);
-    res.json(twin);
+    try {
+      const twin = await actualStorage.createDigitalTwin(result.data);
+      personaRegistry.invalidate();
+      await twinRevisionService.record(twin, "create", { changedBy: changedBy(req) });
+      res.json(twin);
+    } catch (error) {
+      console.error("Error creating digital twin:", error);
+      res.status(500).json({ error: "Failed to create digital twin" });
+    }
+  });
+
+  app.get("/api/digital-twins/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    try {
+      const twin = await actualStorage.getDigitalTwin(id);
+      if (!twin) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      res.json(twin);
+    } catch (error) {
+      console.error("Error fetching digital twin:", error);
+      res.status(500).json({ error: "Failed to fetch digital twin" });
+    }
+  });
+
+  // Partial update. Clients send back the updatedAt they last saw; a stale
+  // value means someone else changed the twin and the update is rejected.
+  app.patch("/api/digital-twins/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    const result = updateDigitalTwinSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    const { updatedAt, configuration, note: revisionNote, ...changes } = result.data as DigitalTwinBody;
+    try {
+      const existing = await actualStorage.getDigitalTwin(id);
+      if (!existing) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+
+      const updates: Record<string, any> = { ...changes };
+      if (configuration) {
+        const current = (existing.configuration as Record<string, any>) || {};
+        updates.configuration = {
+          ...current,
+          ...configuration,
+          ...(configuration.voice_settings && {
+            voice_settings: { ...(current.voice_settings || {}), ...configuration.voice_settings },
+          }),
+        };
+      }
+
+      const twin = await actualStorage.updateDigitalTwin(id, updates, updatedAt);
+      if (!twin) {
+        const current = await actualStorage.getDigitalTwin(id);
+        if (!current) {
+          res.status(404).json({ error: "Digital twin not found" });
+          return;
+        }
+        res.status(409).json({
+          error: "Digital twin was modified by someone else; reload and retry",
+          current,
+        });
+        return;
+      }
+
+      personaRegistry.invalidate();
+      await twinRevisionService.record(twin, "update", { changedBy: changedBy(req), note: revisionNote });
+      res.json(twin);
+    } catch (error) {
+      console.error("Error updating digital twin:", error);
+      res.status(500).json({ error: "Failed to update digital twin" });
+    }
+  });
+
+  // Archives by default; ?hard=true removes the twin and its knowledge
+  app.delete("/api/digital-twins/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    try {
+      const existing = await actualStorage.getDigitalTwin(id);
+      if (!existing) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+
+      if (req.query.hard !== "true") {
+        const twin = await actualStorage.updateDigitalTwin(id, { status: "archived" });
+        personaRegistry.invalidate();
+        if (twin) await twinRevisionService.record(twin, "archive", { changedBy: changedBy(req) });
+        res.json(twin);
+        return;
+      }
+
+      const assigned = await actualStorage.getTasks({ assignedTwinId: id });
+      if (assigned.length) {
+        res.status(409).json({
+          error: `Digital twin has ${assigned.length} assigned task(s); reassign them or archive the twin instead`,
+        });
+        return;
+      }
+
+      await actualStorage.deleteDigitalTwin(id);
+      personaRegistry.invalidate();
+      try {
+        await knowledgeBase.removeTwin(id);
+      } catch (error) {
+        console.error(`Failed to remove knowledge for digital twin ${id}:`, error);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting digital twin:", error);
+      res.status(500).json({ error: "Failed to delete digital twin" });
+    }
+  });
+
+  // Source documents of a twin, without their text
+  app.get("/api/digital-twins/:id/documents", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    try {
+      const twin = await actualStorage.getDigitalTwin(id);
+      if (!twin) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      const documents = await documentService.listDocuments(id);
+      res.json(documents.map(({ content, ...document }) => ({ ...document, characters: content.length })));
+    } catch (error) {
+      console.error("Error fetching twin documents:", error);
+      res.status(500).json({ error: "Failed to fetch twin documents" });
+    }
+  });
+
+  // Queue another document for an existing twin; the twin is re-derived from all its documents
+  app.post(
+    "/api/digital-twins/:id/documents",
+    acceptUpload(upload.single("document")),
+    async (req, res) => {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({ error: "Invalid digital twin ID" });
+        return;
+      }
+      if (!req.file) {
+        res.status(400).json({ error: "No document provided" });
+        return;
+      }
+
+      try {
+        const twin = await actualStorage.getDigitalTwin(id);
+        if (!twin) {
+          res.status(404).json({ error: "Digital twin not found" });
+          return;
+        }
+
+        detectFormat(req.file.buffer, req.file.mimetype, req.file.originalname);
+        const job = ingestionJobs.enqueue(req.file, { twinName: twin.name, twinId: id }, changedBy(req));
+        res.status(202).json({ message: "Document queued for processing", note: INGESTION_JOBS_NOTE, jobId: job.id, job });
+      } catch (error) {
+        if (error instanceof DocumentError) {
+          res.status(error.status).json({ error: error.message, code: error.code });
+          return;
+        }
+        console.error("Error adding twin document:", error);
+        res.status(500).json({ error: "Failed to add document" });
+      }
+    }
+  );
+
+  app.delete("/api/digital-twins/:id/documents/:documentId", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const documentId = parseInt(req.params.documentId);
+    if (isNaN(id) || isNaN(documentId)) {
+      res.status(400).json({ error: "Invalid digital twin or document ID" });
+      return;
+    }
+
+    try {
+      const twin = await documentService.removeDocument(id, documentId, changedBy(req));
+      if (!twin) {
+        res.status(404).json({ error: "Document not found" });
+        return;
+      }
+      res.json(twin);
+    } catch (error) {
+      console.error("Error removing twin document:", error);
+      res.status(500).json({ error: "Failed to remove document" });
+    }
+  });
+
+  // Authored Q&A pairs; ?q= ranks them against a query
+  app.get("/api/digital-twins/:id/qa", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    try {
+      const twin = await actualStorage.getDigitalTwin(id);
+      if (!twin) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        res.json(await qaService.list(id));
+        return;
+      }
+      const limit = Math.min(parseInt(String(req.query.limit || "10")) || 10, 50);
+      const matches = await qaService.search(id, query, limit);
+      res.json(matches.map(({ pair, score }) => ({ ...pair, score })));
+    } catch (error) {
+      console.error("Error fetching Q&A pairs:", error);
+      res.status(500).json({ error: "Failed to fetch Q&A pairs" });
+    }
+  });
+
+  app.post("/api/digital-twins/:id/qa", jsonParser, async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    const result = qaPairSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    try {
+      const twin = await actualStorage.getDigitalTwin(id);
+      if (!twin) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      const pair = await qaService.create(id, result.data as { question: string; answer: string });
+      res.status(201).json(pair);
+    } catch (error) {
+      console.error("Error creating Q&A pair:", error);
+      res.status(500).json({ error: "Failed to create Q&A pair" });
+    }
+  });
+
+  app.patch("/api/digital-twins/:id/qa/:pairId", jsonParser, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const pairId = parseInt(req.params.pairId);
+    if (isNaN(id) || isNaN(pairId)) {
+      res.status(400).json({ error: "Invalid digital twin or Q&A pair ID" });
+      return;
+    }
+
+    const result = updateQaPairSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    try {
+      const pair = await qaService.update(id, pairId, result.data as { question?: string; answer?: string });
+      if (!pair) {
+        res.status(404).json({ error: "Q&A pair not found" });
+        return;
+      }
+      res.json(pair);
+    } catch (error) {
+      console.error("Error updating Q&A pair:", error);
+      res.status(500).json({ error: "Failed to update Q&A pair" });
+    }
+  });
+
+  app.delete("/api/digital-twins/:id/qa/:pairId", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const pairId = parseInt(req.params.pairId);
+    if (isNaN(id) || isNaN(pairId)) {
+      res.status(400).json({ error: "Invalid digital twin or Q&A pair ID" });
+      return;
+    }
+
+    try {
+      const deleted = await qaService.remove(id, pairId);
+      if (!deleted) {
+        res.status(404).json({ error: "Q&A pair not found" });
+        return;
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting Q&A pair:", error);
+      res.status(500).json({ error: "Failed to delete Q&A pair" });
+    }
+  });
+
+  // Extracted persona profile: the active one and a draft awaiting review
+  app.get("/api/digital-twins/:id/profile", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    try {
+      const state = await personaProfiles.getState(id);
+      if (!state) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      res.json(state);
+    } catch (error) {
+      console.error("Error fetching persona profile:", error);
+      res.status(500).json({ error: "Failed to fetch persona profile" });
+    }
+  });
+
+  // Re-run extraction over the twin's documents; the result becomes the draft
+  app.post("/api/digital-twins/:id/profile/extract", jsonParser, async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    const result = extractProfileSchema.safeParse(req.body || {});
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    try {
+      const twin = await actualStorage.getDigitalTwin(id);
+      if (!twin) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+
+      const documents = await documentService.listDocuments(id);
+      const profile = await personaProfiles.extract(documents.map((document) => document.content).join("\n\n"), {
+        personas: await personaRegistry.list(),
+        useLlm: result.data.useLlm,
+        documentCount: documents.length,
+      });
+      await personaProfiles.saveDraft(id, profile);
+      res.json(await personaProfiles.getState(id));
+    } catch (error) {
+      console.error("Error extracting persona profile:", error);
+      res.status(500).json({ error: "Failed to extract persona profile" });
+    }
+  });
+
+  // Reviewer edits replace the draft
+  app.put("/api/digital-twins/:id/profile/draft", jsonParser, async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    const result = profileDraftSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    try {
+      const state = await personaProfiles.getState(id);
+      if (!state) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      await personaProfiles.saveDraft(id, {
+        ...(result.data as Omit<PersonaProfile, "source" | "documentCount" | "extractedAt">),
+        source: "manual",
+        documentCount: (state.draft || state.active)?.documentCount ?? 0,
+        extractedAt: new Date().toISOString(),
+      });
+      res.json(await personaProfiles.getState(id));
+    } catch (error) {
+      console.error("Error saving persona profile draft:", error);
+      res.status(500).json({ error: "Failed to save persona profile draft" });
+    }
+  });
+
+  app.delete("/api/digital-twins/:id/profile/draft", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    try {
+      const twin = await personaProfiles.discardDraft(id);
+      if (!twin) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      res.json(await personaProfiles.getState(id));
+    } catch (error) {
+      console.error("Error discarding persona profile draft:", error);
+      res.status(500).json({ error: "Failed to discard persona profile draft" });
+    }
+  });
+
+  // Approve the draft so conversations start using it
+  app.post("/api/digital-twins/:id/profile/approve", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    try {
+      const state = await personaProfiles.getState(id);
+      if (!state) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      if (!state.draft) {
+        res.status(409).json({ error: "There is no draft profile to approve" });
+        return;
+      }
+      await personaProfiles.approve(id, changedBy(req));
+      res.json(await personaProfiles.getState(id));
+    } catch (error) {
+      console.error("Error approving persona profile:", error);
+      res.status(500).json({ error: "Failed to approve persona profile" });
+    }
+  });
+
+  // Revision history, newest first
+  app.get("/api/digital-twins/:id/revisions", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid digital twin ID" });
+      return;
+    }
+
+    try {
+      const twin = await actualStorage.getDigitalTwin(id);
+      if (!twin) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      res.json(await twinRevisionService.list(id));
+    } catch (error) {
+      console.error("Error fetching twin revisions:", error);
+      res.status(500).json({ error: "Failed to fetch twin revisions" });
+    }
+  });
+
+  app.get("/api/digital-twins/:id/revisions/:revision", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const revision = parseInt(req.params.revision);
+    if (isNaN(id) || isNaN(revision)) {
+      res.status(400).json({ error: "Invalid digital twin ID or revision" });
+      return;
+    }
+
+    try {
+      const found = await twinRevisionService.get(id, revision);
+      if (!found) {
+        res.status(404).json({ error: "Revision not found" });
+        return;
+      }
+      res.json(found);
+    } catch (error) {
+      console.error("Error fetching twin revision:", error);
+      res.status(500).json({ error: "Failed to fetch twin revision" });
+    }
+  });
+
+  app.post("/api/digital-twins/:id/revisions/:revision/rollback", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const revision = parseInt(req.params.revision);
+    if (isNaN(id) || isNaN(revision)) {
+      res.status(400).json({ error: "Invalid digital twin ID or revision" });
+      return;
+    }
+
+    try {
+      if (!(await twinRevisionService.get(id, revision))) {
+        res.status(404).json({ error: "Revision not found" });
+        return;
+      }
+      const twin = await twinRevisionService.rollback(id, revision, {
+        changedBy: changedBy(req),
+        note: typeof req.body?.note === "string" ? req.body.note.slice(0, 500) : undefined,
+      });
+      if (!twin) {
+        res.status(404).json({ error: "Digital twin not found" });
+        return;
+      }
+      personaRegistry.invalidate();
+      res.json(twin);
+    } catch (error) {
+      console.error("Error rolling back digital twin:", error);
+      res.status(500).json({ error: "Failed to roll back digital twin" });
+    }
   });
 
   // Health check endpoint
@@ -539,111 +1131,7 @@ export function registerRoutes(app: Express): Server {
     } catch (error) {
       console.error("Error fetching agents (serving fallback):", error);
       // Serve a safe fallback instead of 500 to keep UI working
-      res.json([
-        {
-          id: 1,
-          name: "Albert Einstein",
-          type: "Theoretical Physics",
-          capabilities: ["Innovation", "Research", "Problem Solving"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Einstein",
-          status: "active",
-          metrics: {
-            requests_handled: 0,
-            success_rate: 0,
-            avg_response_time: 0,
-          },
-        },
-        {
-          id: 2,
-          name: "Elon Musk",
-          type: "Tech Entrepreneur",
-          capabilities: [
-            "Innovation",
-            "Strategic Thinking",
-            "Product Development",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Musk",
-          status: "active",
-          metrics: {
-            requests_handled: 0,
-            success_rate: 0,
-            avg_response_time: 0,
-          },
-        },
-        {
-          id: 3,
-          name: "Emad Mostaque",
-          type: "AI Innovator",
-          capabilities: [
-            "Artificial Intelligence",
-            "Leadership",
-            "Technical Vision",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Mostaque",
-          status: "active",
-          metrics: {
-            requests_handled: 0,
-            success_rate: 0,
-            avg_response_time: 0,
-          },
-        },
-        {
-          id: 4,
-          name: "Fei-Fei Li",
-          type: "AI Research",
-          capabilities: [
-            "Artificial Intelligence",
-            "Research",
-            "Technical Vision",
-          ],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Li",
-          status: "active",
-          metrics: {
-            requests_handled: 0,
-            success_rate: 0,
-            avg_response_time: 0,
-          },
-        },
-        {
-          id: 5,
-          name: "Leonardo da Vinci",
-          type: "Renaissance Innovator",
-          capabilities: ["Innovation", "Art", "Engineering"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=DaVinci",
-          status: "active",
-          metrics: {
-            requests_handled: 0,
-            success_rate: 0,
-            avg_response_time: 0,
-          },
-        },
-        {
-          id: 6,
-          name: "Steve Jobs",
-          type: "Tech Visionary",
-          capabilities: ["Innovation", "Product Development", "Design"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Jobs",
-          status: "active",
-          metrics: {
-            requests_handled: 0,
-            success_rate: 0,
-            avg_response_time: 0,
-          },
-        },
-        {
-          id: 7,
-          name: "Walt Disney",
-          type: "Creative Visionary",
-          capabilities: ["Creativity", "Innovation", "Storytelling"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Disney",
-          status: "active",
-          metrics: {
-            requests_handled: 0,
-            success_rate: 0,
-            avg_response_time: 0,
-          },
-        },
-      ]);
+      res.json(SEED_PERSONAS.map((persona, i) => agentFromPersona(persona, i + 1)));
     }
   });
 
@@ -658,6 +1146,212 @@ export function registerRoutes(app: Express): Server {
     res.json(agent);
   });
 
+  // Task endpoints
+  app.get("/api/tasks", async (req, res) => {
+    const query = taskQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({ error: query.error });
+      return;
+    }
+
+    const { status, priority, agentId, twinId, dueAfter, dueBefore } = query.data;
+    try {
+      const tasks = await actualStorage.getTasks({
+        status,
+        priority,
+        assignedAgentId: agentId,
+        assignedTwinId: twinId,
+        dueAfter,
+        dueBefore,
+      });
+      res.json(tasks);
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+      res.status(500).json({ error: "Failed to fetch tasks" });
+    }
+  });
+
+  app.get("/api/tasks/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid task ID" });
+      return;
+    }
+
+    try {
+      const task = await actualStorage.getTask(id);
+      if (!task) {
+        res.status(404).json({ error: "Task not found" });
+        return;
+      }
+      res.json(task);
+    } catch (error) {
+      console.error("Error fetching task:", error);
+      res.status(500).json({ error: "Failed to fetch task" });
+    }
+  });
+
+  app.post("/api/tasks", async (req, res) => {
+    const result = createTaskSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    const data = result.data as TaskBody;
+    try {
+      const assignmentError = await validateTaskAssignment(data);
+      if (assignmentError) {
+        res.status(400).json({ error: assignmentError });
+        return;
+      }
+
+      const task = await actualStorage.createTask(data);
+      publishTask(task);
+      res.status(201).json(task);
+    } catch (error) {
+      console.error("Error creating task:", error);
+      res.status(500).json({ error: "Failed to create task" });
+    }
+  });
+
+  app.patch("/api/tasks/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid task ID" });
+      return;
+    }
+
+    const result = updateTaskSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    const data = result.data as TaskBody;
+    try {
+      const existing = await actualStorage.getTask(id);
+      if (!existing) {
+        res.status(404).json({ error: "Task not found" });
+        return;
+      }
+
+      const { status } = data;
+      if (status && !canTransitionTask(existing.status, status)) {
+        res.status(409).json({
+          error: `Cannot change task status from "${existing.status}" to "${status}"`,
+          allowed: TASK_STATUS_TRANSITIONS[existing.status as TaskStatus] || [],
+        });
+        return;
+      }
+
+      const assignmentError = await validateTaskAssignment(data);
+      if (assignmentError) {
+        res.status(400).json({ error: assignmentError });
+        return;
+      }
+
+      // A status change only applies if the status is still the one checked above
+      const task = await actualStorage.updateTask(id, data, status ? existing.status : undefined);
+      if (!task) {
+        if (status) {
+          res.status(409).json({ error: "Task status changed while updating; reload the task and try again" });
+          return;
+        }
+        res.status(404).json({ error: "Task not found" });
+        return;
+      }
+      publishTask(task);
+      res.json(task);
+    } catch (error) {
+      console.error("Error updating task:", error);
+      res.status(500).json({ error: "Failed to update task" });
+    }
+  });
+
+  app.delete("/api/tasks/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid task ID" });
+      return;
+    }
+
+    try {
+      const deleted = await actualStorage.deleteTask(id);
+      if (!deleted) {
+        res.status(404).json({ error: "Task not found" });
+        return;
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      res.status(500).json({ error: "Failed to delete task" });
+    }
+  });
+
+  // Debate endpoints
+  app.post("/api/debates", async (req, res) => {
+    const result = createDebateSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    try {
+      const conversation = await debateService.startDebate(
+        result.data as GenerateDebateOptions,
+        "api"
+      );
+      res.status(202).json({ id: conversation.id, status: "running" });
+    } catch (error) {
+      console.error("Error starting debate:", error);
+      res.status(500).json({ error: "Failed to start debate" });
+    }
+  });
+
+  app.get("/api/debates", async (_req, res) => {
+    try {
+      const debates = await debateService.listDebates();
+      res.json(debates);
+    } catch (error) {
+      console.error("Error fetching debates:", error);
+      res.status(500).json({ error: "Failed to fetch debates" });
+    }
+  });
+
+  app.get("/api/debates/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid debate ID" });
+      return;
+    }
+
+    try {
+      const debate = await debateService.getDebate(id);
+      if (!debate) {
+        res.status(404).json({ error: "Debate not found" });
+        return;
+      }
+
+      res.json(debate);
+    } catch (error) {
+      console.error("Error fetching debate:", error);
+      res.status(500).json({ error: "Failed to fetch debate" });
+    }
+  });
+
+  app.get("/api/debates/:id/audio", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const audio = isNaN(id) ? undefined : debateService.getAudio(id);
+    if (!audio) {
+      res.status(404).json({ error: "Debate audio not available" });
+      return;
+    }
+
+    res.setHeader("Content-Type", "audio/mpeg");
+    res.send(audio);
+  });
+
   // Conversation endpoints
   app.get("/api/conversations", async (_req, res) => {
     const conversations = await actualStorage.getConversations();
@@ -691,6 +1385,60 @@ export function registerRoutes(app: Express): Server {
     res.json(conversation);
   });
 
+  // Pin a twin to one of its revisions for this conversation only
+  app.put("/api/conversations/:id/pinned-revisions/:twinId", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const twinId = parseInt(req.params.twinId);
+    if (isNaN(id) || isNaN(twinId)) {
+      res.status(400).json({ error: "Invalid conversation or digital twin ID" });
+      return;
+    }
+
+    const result = pinRevisionSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    try {
+      const { revision } = result.data as { revision: number };
+      if (!(await twinRevisionService.get(twinId, revision))) {
+        res.status(404).json({ error: "Revision not found" });
+        return;
+      }
+      const conversation = await twinRevisionService.pinConversation(id, twinId, revision);
+      if (!conversation) {
+        res.status(404).json({ error: "Conversation not found" });
+        return;
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error pinning twin revision:", error);
+      res.status(500).json({ error: "Failed to pin twin revision" });
+    }
+  });
+
+  app.delete("/api/conversations/:id/pinned-revisions/:twinId", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const twinId = parseInt(req.params.twinId);
+    if (isNaN(id) || isNaN(twinId)) {
+      res.status(400).json({ error: "Invalid conversation or digital twin ID" });
+      return;
+    }
+
+    try {
+      const conversation = await twinRevisionService.pinConversation(id, twinId, null);
+      if (!conversation) {
+        res.status(404).json({ error: "Conversation not found" });
+        return;
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error unpinning twin revision:", error);
+      res.status(500).json({ error: "Failed to unpin twin revision" });
+    }
+  });
+
   app.get("/api/conversations/participant/:name", async (req, res) => {
     const conversations = await actualStorage.getConversationsByParticipant(
       req.params.name
@@ -817,14 +1565,15 @@ export function registerRoutes(app: Express): Server {
   // Slack health check endpoint
   app.get("/slack/health", (req, res) => {
     console.log("[Slack] Health check endpoint called");
-    const slackBotToken = process.env.SLACK_BOT_TOKEN;
     const slackSigningSecret = process.env.SLACK_SIGNING_SECRET;
 
+    // Workspaces installed through OAuth need no SLACK_BOT_TOKEN
     res.json({
       status: "healthy",
-      slackIntegration: "active",
+      slackIntegration: slackInstallations.configured ? "active" : "unconfigured",
       timestamp: new Date().toISOString(),
-      botToken: slackBotToken ? "configured" : "missing",
+      botToken: process.env.SLACK_BOT_TOKEN ? "configured" : "missing",
+      oauth: slackInstallations.oauthEnabled ? "configured" : "missing",
       signingSecret: slackSigningSecret ? "configured" : "missing",
     });
   });
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -67,8 +67,87 @@ export const insertAgentSchema = createInsertSchema(agents);
 
 export const insertTaskSchema = createInsertSchema(tasks);
 
+export const taskStatusSchema = z.enum(["pending", "in_progress", "done", "failed"]);
+export const taskPrioritySchema = z.enum(["low", "medium", "high", "urgent"]);
+
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+
+// Allowed status changes; done and failed are terminal
+export const TASK_STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  pending: ["in_progress"],
+  in_progress: ["done", "failed"],
+  done: [],
+  failed: [],
+};
+
+export function canTransitionTask(from: string, to: string): boolean {
+  if (from === to) return true;
+  return TASK_STATUS_TRANSITIONS[from as TaskStatus]?.includes(to as TaskStatus) ?? false;
+}
+
+export interface TaskFilter {
+  status?: string;
+  priority?: string;
+  assignedAgentId?: number;
+  assignedTwinId?: number;
+  dueAfter?: Date;
+  dueBefore?: Date;
+}
+
 export const insertDigitalTwinSchema = createInsertSchema(digitalTwins);
 
+// "archived" twins are hidden from listings and personas but keep their data
+export const twinStatusSchema = z.enum(["active", "inactive", "archived"]);
+
+export const voiceSettingsSchema = z.object({
+  stability: z.number().min(0).max(1),
+  similarityBoost: z.number().min(0).max(1),
+  style: z.number().min(0).max(1),
+  speakerBoost: z.boolean(),
+});
+
+export const twinConfigurationSchema = z.object({
+  personality: z.string().trim().min(1).max(100),
+  voice_id: z.string().trim().min(1).max(100),
+  voice_settings: voiceSettingsSchema,
+});
+
+// Partial configuration update; omitted keys keep their current value
+export const twinConfigurationPatchSchema = twinConfigurationSchema
+  .extend({ voice_settings: voiceSettingsSchema.partial().strict() })
+  .partial()
+  .strict();
+
+// Structured persona profile derived from a twin's documents
+export const personaProfileSchema = z.object({
+  tone: z.object({
+    label: z.string().trim().min(1).max(50),
+    descriptors: z.array(z.string().trim().min(1).max(50)).max(10),
+  }),
+  vocabulary: z.object({
+    distinctiveWords: z.array(z.string().trim().min(1).max(50)).max(30),
+    averageSentenceLength: z.number().min(0),
+    lexicalDiversity: z.number().min(0).max(1),
+  }),
+  signaturePhrases: z.array(z.string().trim().min(1).max(200)).max(20),
+  beliefs: z.array(z.string().trim().min(1).max(300)).max(20),
+  biography: z.array(z.string().trim().min(1).max(300)).max(20),
+  expertise: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        confidence: z.number().min(0).max(1),
+        quotes: z.array(z.string().trim().min(1).max(300)).max(5),
+      })
+    )
+    .max(30),
+  source: z.enum(["heuristic", "llm", "manual"]),
+  documentCount: z.number().int().min(0),
+  extractedAt: z.string(),
+});
+
+export type PersonaProfile = z.infer<typeof personaProfileSchema>;
+
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -82,6 +161,111 @@ export const conversations = pgTable("conversations", {
 
 export const insertConversationSchema = createInsertSchema(conversations);
 
+// Append-only history of a twin; `snapshot` is the full twin state after the change
+export const twinRevisions = pgTable("twin_revisions", {
+  id: serial("id").primaryKey(),
+  twinId: integer("twin_id").references(() => digitalTwins.id, { onDelete: "cascade" }).notNull(),
+  revision: integer("revision").notNull(),
+  changeType: text("change_type").notNull(),
+  changedBy: text("changed_by").notNull().default("system"),
+  note: text("note"),
+  snapshot: jsonb("snapshot").notNull(),
+  diff: jsonb("diff").notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  twinRevision: unique().on(table.twinId, table.revision),
+}));
+
+export const insertTwinRevisionSchema = createInsertSchema(twinRevisions);
+
+// Source material attached to a twin; together the documents form its corpus
+export const twinDocuments = pgTable("twin_documents", {
+  id: serial("id").primaryKey(),
+  twinId: integer("twin_id").references(() => digitalTwins.id, { onDelete: "cascade" }).notNull(),
+  fileName: text("file_name").notNull(),
+  format: text("format").notNull(),
+  content: text("content").notNull(),
+  addedBy: text("added_by").notNull().default("upload"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertTwinDocumentSchema = createInsertSchema(twinDocuments);
+
+// Authored question/answer pairs; pairs parsed from a document go away with it
+export const twinQaPairs = pgTable("twin_qa_pairs", {
+  id: serial("id").primaryKey(),
+  twinId: integer("twin_id").references(() => digitalTwins.id, { onDelete: "cascade" }).notNull(),
+  documentId: integer("document_id").references(() => twinDocuments.id, { onDelete: "cascade" }),
+  question: text("question").notNull(),
+  answer: text("answer").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertTwinQaPairSchema = createInsertSchema(twinQaPairs);
+
+// Slack chat state per workspace, user and channel, or per thread when
+// threadTs is set (userId is then whoever started it); expired rows are swept
+export const slackSessions = pgTable("slack_sessions", {
+  id: serial("id").primaryKey(),
+  sessionKey: text("session_key").notNull().unique(),
+  teamId: text("team_id").notNull(),
+  userId: text("user_id").notNull(),
+  channelId: text("channel_id").notNull(),
+  threadTs: text("thread_ts"),
+  selectedPersona: text("selected_persona"),
+  // Persona slugs of a panel thread, which has no single selected persona
+  panelists: jsonb("panelists"),
+  history: jsonb("history").notNull().default([]),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  lastActivity: timestamp("last_activity").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSlackSessionSchema = createInsertSchema(slackSessions);
+
+// Per-channel Slack settings, e.g. the persona new threads start with
+export const slackChannelSettings = pgTable("slack_channel_settings", {
+  id: serial("id").primaryKey(),
+  teamId: text("team_id").notNull(),
+  channelId: text("channel_id").notNull(),
+  defaultPersona: text("default_persona"),
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  teamChannel: unique().on(table.teamId, table.channelId),
+}));
+
+export const insertSlackChannelSettingsSchema = createInsertSchema(slackChannelSettings);
+
+// Bot token for each workspace that installed the app through OAuth
+export const slackInstallations = pgTable("slack_installations", {
+  id: serial("id").primaryKey(),
+  teamId: text("team_id").notNull().unique(),
+  teamName: text("team_name"),
+  enterpriseId: text("enterprise_id"),
+  appId: text("app_id"),
+  botUserId: text("bot_user_id"),
+  botToken: text("bot_token").notNull(),
+  scope: text("scope"),
+  installedBy: text("installed_by"),
+  installedAt: timestamp("installed_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSlackInstallationSchema = createInsertSchema(slackInstallations);
+
+export const twinChangeTypeSchema = z.enum(["create", "update", "knowledge", "archive", "rollback"]);
+export type TwinChangeType = z.infer<typeof twinChangeTypeSchema>;
+
+// One changed field; nested configuration keys use dotted paths
+export interface TwinFieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
 export type InsertAgent = z.infer<typeof insertAgentSchema>;
 export type Agent = typeof agents.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
@@ -90,4 +274,16 @@ export type InsertDigitalTwin = z.infer<typeof insertDigitalTwinSchema>;
 export type DigitalTwin = typeof digitalTwins.$inferSelect;
 
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
-export type Conversation = typeof conversations.$inferSelect;
\ No newline at end of file
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertTwinRevision = z.infer<typeof insertTwinRevisionSchema>;
+export type TwinDocument = typeof twinDocuments.$inferSelect;
+export type InsertTwinDocument = z.infer<typeof insertTwinDocumentSchema>;
+export type TwinQaPair = typeof twinQaPairs.$inferSelect;
+export type SlackSession = typeof slackSessions.$inferSelect;
+export type InsertSlackSession = z.infer<typeof insertSlackSessionSchema>;
+export type SlackChannelSettings = typeof slackChannelSettings.$inferSelect;
+export type InsertSlackChannelSettings = z.infer<typeof insertSlackChannelSettingsSchema>;
+export type SlackInstallation = typeof slackInstallations.$inferSelect;
+export type InsertSlackInstallation = z.infer<typeof insertSlackInstallationSchema>;
+export type InsertTwinQaPair = z.infer<typeof insertTwinQaPairSchema>;
+export type TwinRevision = typeof twinRevisions.$inferSelect;
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { SlackApiError, SlackClient } from "./slack-client.js";
+
+interface FetchCall {
+  url: string;
+  body: any;
+  at: number;
+}
+
+// Replace fetch with one that answers from `responses` in order
+function stubFetch(responses: Array<Response | Error>) {
+  const calls: FetchCall[] = [];
+  mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+    calls.push({ url, body: init.body ? JSON.parse(String(init.body)) : undefined, at: Date.now() });
+    const next = responses.shift() ?? json({ ok: true });
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return calls;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+function createClient() {
+  return new SlackClient({ token: "xoxb-test", baseDelayMs: 1, maxDelayMs: 5, channelIntervalMs: 0 });
+}
+
+describe("SlackClient", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("sends the bot token and returns the parsed response", async () => {
+    const calls = stubFetch([json({ ok: true, view: { id: "V1" } })]);
+    const result = await createClient().publishView("U1", { type: "home" });
+    assert.equal(result.view.id, "V1");
+    assert.equal(calls[0].url, "https://slack.com/api/views.publish");
+    assert.deepEqual(calls[0].body, { user_id: "U1", view: { type: "home" } });
+  });
+
+  it("throws Slack's error code without retrying it", async () => {
+    const calls = stubFetch([json({ ok: false, error: "channel_not_found" })]);
+    await assert.rejects(
+      createClient().postMessage({ channel: "C1", text: "Hi" }),
+      (error: unknown) => error instanceof SlackApiError && error.code === "channel_not_found"
+    );
+    assert.equal(calls.length, 1);
+  });
+
+  it("retries server errors and network failures with backoff", async () => {
+    const calls = stubFetch([json({}, 503), new TypeError("fetch failed"), json({ ok: true, view: { id: "V1" } })]);
+    const result = await createClient().openView("trigger", { type: "modal" });
+    assert.equal(result.view.id, "V1");
+    assert.equal(calls.length, 3);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const calls = stubFetch([json({}, 500), json({}, 500), json({}, 500), json({}, 500), json({}, 500)]);
+    await assert.rejects(
+      createClient().openView("trigger", { type: "modal" }),
+      (error: unknown) => error instanceof SlackApiError && error.code === "http_error" && error.status === 500
+    );
+    assert.equal(calls.length, 4);
+  });
+
+  it("does not retry message posts after a server error or network failure", async () => {
+    const calls = stubFetch([json({}, 502), new TypeError("fetch failed")]);
+    const client = createClient();
+    await assert.rejects(client.postMessage({ channel: "C1", text: "Once" }), { code: "http_error" });
+    await assert.rejects(client.postEphemeral({ channel: "C1", user: "U1", text: "Once" }), { code: "request_failed" });
+    assert.equal(calls.length, 2);
+  });
+
+  it("waits for Retry-After before retrying a rate-limited post", async () => {
+    const calls = stubFetch([json({ ok: false, error: "ratelimited" }, 429, { "Retry-After": "1" }), json({ ok: true, ts: "1.2" })]);
+    const result = await createClient().postMessage({ channel: "C1", text: "Hi" });
+    assert.equal(result.ts, "1.2");
+    assert.equal(calls.length, 2);
+    assert.ok(calls[1].at - calls[0].at >= 950, `retried after ${calls[1].at - calls[0].at}ms`);
+  });
+
+  it("spaces posts to the same channel but not across channels", async () => {
+    const calls = stubFetch([]);
+    const client = new SlackClient({ token: "xoxb-test", channelIntervalMs: 100 });
+    await Promise.all([
+      client.postMessage({ channel: "C1", text: "one" }),
+      client.postMessage({ channel: "C1", text: "two" }),
+      client.postMessage({ channel: "C2", text: "other" }),
+    ]);
+
+    const at = (text: string) => calls.find((call) => call.body.text === text)!.at;
+    assert.deepEqual(calls.filter((call) => call.body.channel === "C1").map((call) => call.body.text), ["one", "two"]);
+    assert.ok(at("two") - at("one") >= 90, `second post after ${at("two") - at("one")}ms`);
+    assert.ok(at("other") - at("one") < 90, "another channel is not held back");
+  });
+
+  it("keeps a channel queue going after a failed post", async () => {
+    stubFetch([json({ ok: false, error: "not_in_channel" }), json({ ok: true, ts: "2.1" })]);
+    const client = createClient();
+    const [failed, posted] = await Promise.allSettled([
+      client.postMessage({ channel: "C1", text: "one" }),
+      client.postMessage({ channel: "C1", text: "two" }),
+    ]);
+    assert.equal(failed.status, "rejected");
+    assert.equal(posted.status === "fulfilled" && posted.value.ts, "2.1");
+  });
+});
@@ -0,0 +1,318 @@
+const SLACK_API_URL = "https://slack.com/api";
+
+// Slack allows roughly one message per second per channel
+const DEFAULT_CHANNEL_INTERVAL_MS = 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_TIMEOUT_MS = 10000;
+const UPLOAD_TIMEOUT_MS = 60000;
+// A timeout, dropped connection or server error may come after Slack already
+// posted, so these are only retried when rate limited; a retry could post twice
+const NON_IDEMPOTENT_METHODS = new Set(["chat.postMessage", "chat.postEphemeral", "files.completeUploadExternal"]);
+
+export interface SlackResponse {
+  ok: boolean;
+  error?: string;
+  warning?: string;
+  response_metadata?: { messages?: string[]; warnings?: string[] };
+  [key: string]: any;
+}
+
+export interface PostMessageResponse extends SlackResponse {
+  channel: string;
+  ts: string;
+}
+
+export interface ViewResponse extends SlackResponse {
+  view: { id: string; [key: string]: any };
+}
+
+export interface UploadFileResponse extends SlackResponse {
+  files: Array<{ id: string; title?: string }>;
+}
+
+export interface PostMessageArgs {
+  channel: string;
+  text: string;
+  blocks?: any[];
+  thread_ts?: string;
+}
+
+export interface PostEphemeralArgs extends PostMessageArgs {
+  user: string;
+}
+
+export interface UploadFileArgs {
+  channel: string;
+  filename: string;
+  file: Buffer;
+  title?: string;
+  thread_ts?: string;
+  initial_comment?: string;
+}
+
+// Body posted to an interaction's response_url
+export interface ResponseUrlMessage {
+  text: string;
+  blocks?: any[];
+  response_type?: "ephemeral" | "in_channel";
+  replace_original?: boolean;
+  delete_original?: boolean;
+  thread_ts?: string;
+}
+
+export interface CallOptions {
+  // Bot token of the workspace to act in; defaults to SLACK_BOT_TOKEN.
+  // An empty string sends no Authorization header (e.g. oauth.v2.access).
+  token?: string;
+}
+
+export interface SlackClientOptions {
+  token?: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  channelIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+// A failed Web API call: `code` is Slack's error string (e.g. "channel_not_found")
+// or one of http_error, timeout, request_failed, invalid_response
+export class SlackApiError extends Error {
+  constructor(
+    public method: string,
+    public code: string,
+    public status?: number,
+    public retryable = false,
+    public retryAfterMs?: number
+  ) {
+    super(`Slack ${method} failed: ${code}${status ? ` (HTTP ${status})` : ""}`);
+    this.name = "SlackApiError";
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Thin Slack Web API client. Every call checks `ok`, retries rate limits
+ * (honouring Retry-After), server errors and network failures with
+ * exponential backoff, and throws SlackApiError once it gives up. Message
+ * posts are not retried after network failures or server errors. Posts
+ * are queued per channel so bursts stay under Slack's per-channel limit.
+ */
+export class SlackClient {
+  private token: string;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private channelIntervalMs: number;
+  private timeoutMs: number;
+  private channelQueues = new Map<string, Promise<unknown>>();
+  private lastPostAt = new Map<string, number>();
+
+  constructor(options: SlackClientOptions = {}) {
+    this.token = options.token ?? process.env.SLACK_BOT_TOKEN ?? "";
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.channelIntervalMs = options.channelIntervalMs ?? DEFAULT_CHANNEL_INTERVAL_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Call a Web API method. Most methods take JSON; `form` sends the payload
+   * form-encoded (objects are JSON-stringified) for methods that need it.
+   */
+  async call<T extends SlackResponse = SlackResponse>(
+    method: string,
+    payload: Record<string, any> = {},
+    options: CallOptions & { form?: boolean } = {}
+  ): Promise<T> {
+    const token = options.token ?? this.token;
+    return this.withRetries(method, payload.channel || payload.channel_id, async () => {
+      const response = await this.fetchWithTimeout(`${SLACK_API_URL}/${method}`, this.timeoutMs, {
+        method: "POST",
+        headers: {
+          ...(token && { Authorization: `Bearer ${token}` }),
+          "Content-Type": options.form ? "application/x-www-form-urlencoded" : "application/json; charset=utf-8",
+        },
+        body: options.form ? toForm(payload) : JSON.stringify(payload),
+      }, method);
+      checkStatus(method, response);
+
+      const result = (await response.json().catch(() => null)) as T | null;
+      if (!result) throw new SlackApiError(method, "invalid_response", response.status);
+      if (!result.ok) {
+        throw new SlackApiError(method, result.error || "unknown_error", undefined, result.error === "ratelimited");
+      }
+      if (result.warning) {
+        console.warn(`[SlackClient] ${method} warning: ${result.warning}`);
+      }
+      return result;
+    });
+  }
+
+  postMessage(args: PostMessageArgs, options: CallOptions = {}): Promise<PostMessageResponse> {
+    return this.inChannel(args.channel, () => this.call<PostMessageResponse>("chat.postMessage", { ...args }, options));
+  }
+
+  postEphemeral(args: PostEphemeralArgs, options: CallOptions = {}): Promise<PostMessageResponse> {
+    return this.inChannel(args.channel, () => this.call<PostMessageResponse>("chat.postEphemeral", { ...args }, options));
+  }
+
+  openView(triggerId: string, view: any, options: CallOptions = {}): Promise<ViewResponse> {
+    return this.call<ViewResponse>("views.open", { trigger_id: triggerId, view }, options);
+  }
+
+  publishView(userId: string, view: any, options: CallOptions = {}): Promise<ViewResponse> {
+    return this.call<ViewResponse>("views.publish", { user_id: userId, view }, options);
+  }
+
+  /**
+   * Reply through a slash command or interaction's response_url. It needs
+   * no token or channel membership, and works for 30 minutes and 5 replies.
+   */
+  async respond(responseUrl: string, message: ResponseUrlMessage): Promise<void> {
+    await this.withRetries("response_url", undefined, async () => {
+      const response = await this.fetchWithTimeout(responseUrl, this.timeoutMs, {
+        method: "POST",
+        headers: { "Content-Type": "application/json; charset=utf-8" },
+        body: JSON.stringify(message),
+      }, "response_url");
+      checkStatus("response_url", response);
+
+      // Slack answers "ok" or {"ok":true}; failures carry an error code
+      const body = await response.text();
+      let result: SlackResponse | undefined;
+      try {
+        result = JSON.parse(body);
+      } catch {
+        result = undefined;
+      }
+      if (!response.ok || result?.ok === false) {
+        throw new SlackApiError("response_url", result?.error || body.trim() || "http_error", response.ok ? undefined : response.status);
+      }
+    });
+  }
+
+  /**
+   * Upload a file with the external upload flow: reserve an upload URL,
+   * send the bytes there, then share the file in the channel.
+   */
+  uploadFile(args: UploadFileArgs, options: CallOptions = {}): Promise<UploadFileResponse> {
+    const { channel, filename, file, title, thread_ts, initial_comment } = args;
+    return this.inChannel(channel, async () => {
+      const { upload_url, file_id } = await this.call(
+        "files.getUploadURLExternal",
+        { filename, length: file.length },
+        { ...options, form: true }
+      );
+
+      await this.withRetries("files.upload_url", channel, async () => {
+        const response = await this.fetchWithTimeout(upload_url, UPLOAD_TIMEOUT_MS, {
+          method: "POST",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: new Uint8Array(file),
+        }, "files.upload_url");
+        checkStatus("files.upload_url", response);
+        if (!response.ok) throw new SlackApiError("files.upload_url", "http_error", response.status);
+      });
+
+      return this.call<UploadFileResponse>(
+        "files.completeUploadExternal",
+        {
+          files: [{ id: file_id, title: title || filename }],
+          channel_id: channel,
+          ...(thread_ts && { thread_ts }),
+          ...(initial_comment && { initial_comment }),
+        },
+        { ...options, form: true }
+      );
+    });
+  }
+
+  // Run channel posts one after another, spaced by the channel interval
+  private inChannel<T>(channel: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.channelQueues.get(channel) || Promise.resolve();
+    const run = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const wait = (this.lastPostAt.get(channel) || 0) + this.channelIntervalMs - Date.now();
+        if (wait > 0) await sleep(wait);
+        try {
+          return await task();
+        } finally {
+          this.lastPostAt.set(channel, Date.now());
+        }
+      });
+    this.channelQueues.set(channel, run);
+    run
+      .catch(() => undefined)
+      .then(() => {
+        if (this.channelQueues.get(channel) === run) this.channelQueues.delete(channel);
+      });
+    return run;
+  }
+
+  private async withRetries<T>(method: string, channel: string | undefined, attempt: () => Promise<T>): Promise<T> {
+    for (let tries = 1; ; tries++) {
+      try {
+        return await attempt();
+      } catch (err) {
+        const error = err instanceof SlackApiError ? err : new SlackApiError(method, "request_failed");
+        const failure = { method, channel, code: error.code, status: error.status, attempt: tries };
+
+        if (!error.retryable || tries > this.maxRetries) {
+          console.error("[SlackClient] Request failed", { ...failure, message: err instanceof Error ? err.message : String(err) });
+          throw error;
+        }
+        const delay = error.retryAfterMs ?? this.backoff(tries);
+        console.warn("[SlackClient] Retrying request", { ...failure, delayMs: delay });
+        await sleep(delay);
+      }
+    }
+  }
+
+  // Exponential backoff with jitter, capped at maxDelayMs
+  private backoff(tries: number): number {
+    const delay = this.baseDelayMs * 2 ** (tries - 1);
+    return Math.min(this.maxDelayMs, Math.round(delay / 2 + Math.random() * (delay / 2)));
+  }
+
+  private async fetchWithTimeout(url: string, timeoutMs: number, init: RequestInit, method: string) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error: any) {
+      const code = error?.name === "AbortError" ? "timeout" : "request_failed";
+      throw new SlackApiError(method, code, undefined, !NON_IDEMPOTENT_METHODS.has(method));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// 429s carry Retry-After in seconds; 5xx are retried with backoff unless
+// the method could post twice
+function checkStatus(method: string, response: Response) {
+  if (response.status === 429) {
+    const retryAfter = parseInt(response.headers.get("retry-after") || "1", 10);
+    throw new SlackApiError(method, "ratelimited", 429, true, (Number.isNaN(retryAfter) ? 1 : retryAfter) * 1000);
+  }
+  if (response.status >= 500) {
+    throw new SlackApiError(method, "http_error", response.status, !NON_IDEMPOTENT_METHODS.has(method));
+  }
+}
+
+function toForm(payload: Record<string, any>): URLSearchParams {
+  const form = new URLSearchParams();
+  for (const [key, value] of Object.entries(payload)) {
+    if (value === undefined) continue;
+    form.append(key, typeof value === "object" ? JSON.stringify(value) : String(value));
+  }
+  return form;
+}
+
+export const slackClient = new SlackClient();
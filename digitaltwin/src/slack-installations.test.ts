@@ -0,0 +1,52 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage.js";
+import type { SlackClient } from "./slack-client.js";
+
+process.env.SLACK_CLIENT_ID = "client-id";
+process.env.SLACK_CLIENT_SECRET = "client-secret";
+
+// The module reads the OAuth credentials when it loads, so import it after setting them
+let installations: typeof import("./slack-installations.js");
+before(async () => {
+  installations = await import("./slack-installations.js");
+});
+
+// Answers oauth.v2.access with a bot token for team T1
+const fakeClient = {
+  async call() {
+    return { ok: true, access_token: "xoxb-installed", team: { id: "T1", name: "Acme" }, app_id: "A1" };
+  },
+} as unknown as SlackClient;
+
+function stateOf(url: string): string {
+  return new URL(url).searchParams.get("state") || "";
+}
+
+describe("SlackInstallationStore OAuth", () => {
+  it("installs when the callback carries the nonce of the browser that started it", async () => {
+    const storage = new MemStorage();
+    const store = new installations.SlackInstallationStore(storage, fakeClient);
+    const nonce = store.createNonce();
+    const state = stateOf(store.authorizeUrl("https://example.test/slack/oauth/callback", nonce));
+
+    const installation = await store.completeInstall("code", state, "https://example.test/slack/oauth/callback", nonce);
+    assert.equal(installation.teamId, "T1");
+    assert.equal(await store.tokenFor("T1"), "xoxb-installed");
+  });
+
+  it("rejects a state without the browser's nonce cookie or with another browser's", async () => {
+    const store = new installations.SlackInstallationStore(new MemStorage(), fakeClient);
+    const state = stateOf(store.authorizeUrl("https://example.test/cb", store.createNonce()));
+
+    await assert.rejects(store.completeInstall("code", state, "https://example.test/cb", undefined), /Invalid or expired OAuth state/);
+    await assert.rejects(store.completeInstall("code", state, "https://example.test/cb", store.createNonce()), /Invalid or expired OAuth state/);
+  });
+
+  it("rejects a forged state", async () => {
+    const store = new installations.SlackInstallationStore(new MemStorage(), fakeClient);
+    const nonce = store.createNonce();
+    const forged = `${Date.now()}.${nonce}.${"0".repeat(64)}`;
+    await assert.rejects(store.completeInstall("code", forged, "https://example.test/cb", nonce), /Invalid or expired OAuth state/);
+  });
+});
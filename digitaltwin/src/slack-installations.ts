@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import { storage as defaultStorage, type IStorage } from "./storage.js";
+import { slackClient as defaultSlackClient, type SlackClient, type SlackResponse } from "./slack-client.js";
+import type { InsertSlackInstallation, SlackInstallation } from "./schema.js";
+
+const SLACK_CLIENT_ID = process.env.SLACK_CLIENT_ID || "";
+const SLACK_CLIENT_SECRET = process.env.SLACK_CLIENT_SECRET || "";
+// Single-workspace token, used for teams that have not installed through OAuth
+const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN || "";
+
+const DEFAULT_SCOPES = "app_mentions:read,chat:write,commands,files:write,im:history";
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+// Holds the install's nonce in the browser that started it
+export const OAUTH_NONCE_COOKIE = "slack_oauth_nonce";
+// Token lookups happen on every Slack call; a short cache keeps that cheap
+const TOKEN_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface OAuthAccessResponse extends SlackResponse {
+  access_token: string;
+  scope?: string;
+  bot_user_id?: string;
+  app_id?: string;
+  team: { id: string; name?: string };
+  enterprise?: { id: string } | null;
+  authed_user?: { id: string };
+}
+
+/**
+ * Workspaces that installed the app through OAuth v2 and their bot tokens.
+ * Handlers look the token up by team_id; a workspace without an
+ * installation falls back to SLACK_BOT_TOKEN when that is set.
+ */
+export class SlackInstallationStore {
+  private cache = new Map<string, { token?: string; expiresAt: number }>();
+
+  constructor(private storage: IStorage = defaultStorage, private client: SlackClient = defaultSlackClient) {}
+
+  // OAuth install flow available (client id and secret configured)
+  get oauthEnabled(): boolean {
+    return Boolean(SLACK_CLIENT_ID && SLACK_CLIENT_SECRET);
+  }
+
+  // Some way of getting a bot token is configured
+  get configured(): boolean {
+    return this.oauthEnabled || Boolean(SLACK_BOT_TOKEN);
+  }
+
+  async tokenFor(teamId: string): Promise<string | undefined> {
+    const cached = this.cache.get(teamId);
+    if (cached && cached.expiresAt > Date.now()) return cached.token;
+
+    const installation = teamId ? await this.storage.getSlackInstallation(teamId) : undefined;
+    const token = installation?.botToken || SLACK_BOT_TOKEN || undefined;
+    this.cache.set(teamId, { token, expiresAt: Date.now() + TOKEN_CACHE_TTL_MS });
+    return token;
+  }
+
+  // A fresh nonce for one install; the caller keeps it in a cookie
+  createNonce(): string {
+    return crypto.randomBytes(12).toString("hex");
+  }
+
+  // Slack's consent page, with a signed state that the callback checks
+  authorizeUrl(redirectUri: string, nonce: string): string {
+    const params = new URLSearchParams({
+      client_id: SLACK_CLIENT_ID,
+      scope: process.env.SLACK_SCOPES || DEFAULT_SCOPES,
+      redirect_uri: redirectUri,
+      state: this.createState(nonce),
+    });
+    return `https://slack.com/oauth/v2/authorize?${params}`;
+  }
+
+  /**
+   * Exchange the callback's code for a bot token and store it. Throws if
+   * the state is missing, forged or expired, if it does not carry the nonce
+   * of the browser that started the install (from its cookie), or if Slack
+   * rejects the code.
+   */
+  async completeInstall(code: string, state: string, redirectUri: string, nonce: string | undefined): Promise<SlackInstallation> {
+    if (!this.verifyState(state, nonce)) {
+      throw new Error("Invalid or expired OAuth state");
+    }
+    const access = await this.client.call<OAuthAccessResponse>(
+      "oauth.v2.access",
+      { client_id: SLACK_CLIENT_ID, client_secret: SLACK_CLIENT_SECRET, code, redirect_uri: redirectUri },
+      { form: true, token: "" }
+    );
+
+    const installation = await this.storage.saveSlackInstallation({
+      teamId: access.team.id,
+      teamName: access.team.name ?? null,
+      enterpriseId: access.enterprise?.id ?? null,
+      appId: access.app_id ?? null,
+      botUserId: access.bot_user_id ?? null,
+      botToken: access.access_token,
+      scope: access.scope ?? null,
+      installedBy: access.authed_user?.id ?? null,
+    } as InsertSlackInstallation);
+    this.cache.delete(installation.teamId);
+    console.log(`[SlackInstallations] Installed in ${installation.teamName || installation.teamId}`);
+    return installation;
+  }
+
+  // Forget a workspace's token after app_uninstalled or tokens_revoked
+  async uninstall(teamId: string): Promise<boolean> {
+    const removed = await this.storage.deleteSlackInstallation(teamId);
+    this.cache.delete(teamId);
+    if (removed) console.log(`[SlackInstallations] Removed installation for ${teamId}`);
+    return removed;
+  }
+
+  // `<issued at>.<nonce>.<hmac>` signed with the client secret, so the
+  // callback can check it without server-side state. The nonce must also
+  // match the browser's cookie, so a state issued to one browser cannot
+  // complete an install started in another.
+  private createState(nonce: string): string {
+    const payload = `${Date.now()}.${nonce}`;
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private verifyState(state: string, expectedNonce: string | undefined): boolean {
+    const [issuedAt, nonce, signature] = (state || "").split(".");
+    if (!issuedAt || !nonce || !signature || nonce !== expectedNonce) return false;
+    if (Date.now() - Number(issuedAt) > OAUTH_STATE_TTL_MS) return false;
+    const expected = Buffer.from(this.sign(`${issuedAt}.${nonce}`));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac("sha256", SLACK_CLIENT_SECRET).update(payload).digest("hex");
+  }
+}
+
+export const slackInstallations = new SlackInstallationStore();
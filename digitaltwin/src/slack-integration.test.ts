@@ -0,0 +1,64 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+
+const SECRET = "test-signing-secret";
+process.env.SLACK_SIGNING_SECRET = SECRET;
+
+// The module reads the signing secret when it loads, so import it after setting one
+let slack: typeof import("./slack-integration.js");
+before(async () => {
+  slack = await import("./slack-integration.js");
+});
+
+function sign(body: string, timestamp: string, secret = SECRET) {
+  return `v0=${crypto.createHmac("sha256", secret).update(`v0:${timestamp}:${body}`, "utf8").digest("hex")}`;
+}
+
+const now = () => String(Math.floor(Date.now() / 1000));
+
+describe("verifySlackSignature", () => {
+  const body = JSON.stringify({ type: "event_callback", event_id: "Ev1" });
+
+  it("accepts a request signed with the signing secret", () => {
+    const timestamp = now();
+    assert.equal(slack.verifySlackSignature(body, timestamp, sign(body, timestamp)), true);
+  });
+
+  it("rejects a tampered body or a signature made with another secret", () => {
+    const timestamp = now();
+    const signature = sign(body, timestamp);
+    assert.equal(slack.verifySlackSignature(body.replace("Ev1", "Ev2"), timestamp, signature), false);
+    assert.equal(slack.verifySlackSignature(body, timestamp, sign(body, timestamp, "other-secret")), false);
+    assert.equal(slack.verifySlackSignature(body, timestamp, "v0=short"), false);
+  });
+
+  it("rejects a stale timestamp even when correctly signed", () => {
+    const stale = String(Math.floor(Date.now() / 1000) - 6 * 60);
+    assert.equal(slack.verifySlackSignature(body, stale, sign(body, stale)), false);
+  });
+
+  it("rejects requests missing the signature headers", () => {
+    assert.equal(slack.verifySlackSignature(body, undefined, sign(body, now())), false);
+    assert.equal(slack.verifySlackSignature(body, now(), undefined), false);
+  });
+});
+
+describe("RecentEventIds", () => {
+  it("reports a duplicate event_id until it expires", async () => {
+    const recent = new slack.RecentEventIds(20, 100);
+    assert.equal(recent.add("Ev1"), true);
+    assert.equal(recent.add("Ev1"), false);
+    assert.equal(recent.add("Ev2"), true);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.equal(recent.add("Ev1"), true);
+  });
+
+  it("forgets the oldest ids beyond maxEntries", () => {
+    const recent = new slack.RecentEventIds(60000, 2);
+    ["Ev1", "Ev2", "Ev3"].forEach((id) => recent.add(id));
+    assert.equal(recent.add("Ev3"), false);
+    assert.equal(recent.add("Ev1"), true);
+  });
+});
@@ -1,9 +1,24 @@
 import express from "express";
 import crypto from "crypto";
-import { generateDebate } from "./debate-generator.js";
+import { debateService } from "./debate-service.js";
 import { voiceService } from "./voice-service.js";
 import { storage } from "./storage.js";
-import { conversationManager } from "./conversation-manager.js";
+import { conversationManager, type HistoryEntry } from "./conversation-manager.js";
+import { personaRegistry, type Persona } from "./persona-registry.js";
+import { MAX_PANELISTS, addressedPanelists, parsePanelCommand, resolvePanelists, runPanelRound } from "./panel-discussion.js";
+import { slackSessions, type SlackChatSession, type SlackTurnRef } from "./slack-sessions.js";
+import { SlackApiError, slackClient, type CallOptions, type ResponseUrlMessage } from "./slack-client.js";
+import { OAUTH_NONCE_COOKIE, OAUTH_STATE_TTL_MS, slackInstallations } from "./slack-installations.js";
+import {
+  CHANNEL_DEFAULTS_MODAL,
+  DEBATE_MODAL,
+  channelDefaultsModal,
+  debateModal,
+  homeView,
+  parseChannelDefaultsSubmission,
+  parseDebateSubmission,
+  type DebateSubmission,
+} from "./slack-views.js";
 
 interface SlashCommandPayload {
   token: string;
@@ -21,88 +36,32 @@ interface SlashCommandPayload {
 
 interface InteractivePayload {
   type: string;
+  team?: { id: string; domain?: string };
   user: { id: string; name: string };
   channel?: { id: string; name: string };
+  message?: { ts: string; thread_ts?: string };
+  container?: { type: string; thread_ts?: string };
   actions?: Array<{
     action_id: string;
+    block_id?: string;
     value?: string;
     selected_option?: { value: string };
   }>;
+  // Set for view_submission and for actions taken inside a modal or App Home
+  view?: {
+    id: string;
+    type: string;
+    callback_id?: string;
+    private_metadata?: string;
+    state?: { values: Record<string, Record<string, any>> };
+  };
   trigger_id: string;
   response_url: string;
 }
 
 const SLACK_SIGNING_SECRET = process.env.SLACK_SIGNING_SECRET || "";
-const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN || "";
-
-// Digital Twin Personas available in Slack
-const DIGITAL_TWINS = [
-  {
-    id: "albert-einstein",
-    name: "Albert Einstein",
-    expertise: ["Innovation", "Research", "Problem Solving"],
-    emoji: "🧠",
-    description: "Theoretical physicist and innovator",
-  },
-  {
-    id: "elon-musk",
-    name: "Elon Musk",
-    expertise: ["Innovation", "Strategic Thinking", "Product Development"],
-    emoji: "🚀",
-    description: "Tech entrepreneur and visionary",
-  },
-  {
-    id: "steve-jobs",
-    name: "Steve Jobs",
-    expertise: ["Innovation", "Product Development", "Design"],
-    emoji: "🍎",
-    description: "Tech visionary and design pioneer",
-  },
-  {
-    id: "leonardo-da-vinci",
-    name: "Leonardo da Vinci",
-    expertise: ["Innovation", "Art", "Engineering", "Design Thinking"],
-    emoji: "🎨",
-    description: "Renaissance innovator and polymath",
-  },
-  {
-    id: "walt-disney",
-    name: "Walt Disney",
-    expertise: ["Creativity", "Innovation", "Storytelling"],
-    emoji: "🏰",
-    description: "Creative visionary and storyteller",
-  },
-  {
-    id: "emad-mostaque",
-    name: "Emad Mostaque",
-    expertise: ["Artificial Intelligence", "Leadership", "Technical Vision"],
-    emoji: "🤖",
-    description: "AI innovator and leader",
-  },
-  {
-    id: "fei-fei-li",
-    name: "Fei-Fei Li",
-    expertise: ["Artificial Intelligence", "Research", "Technical Vision"],
-    emoji: "👩‍🔬",
-    description: "AI researcher and computer vision expert",
-  },
-];
-
-// Store user conversations in memory (in production, use Redis/database)
-const userConversations = new Map<
-  string,
-  {
-    selectedPersona?: string;
-    conversationHistory: Array<{
-      role: "user" | "assistant";
-      content: string;
-      persona?: string;
-    }>;
-    lastActivity: number;
-  }
->();
 
-function verifySlackSignature(
+export function verifySlackSignature(
   rawBody: string,
   timestamp: string | undefined,
   signature: string | undefined
@@ -115,78 +74,130 @@ function verifySlackSignature(
     .createHmac("sha256", SLACK_SIGNING_SECRET)
     .update(sigBase, "utf8")
     .digest("hex");
-  const expected = `v0=${hmac}`;
-  // Constant time compare
-  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  const expected = Buffer.from(`v0=${hmac}`);
+  const received = Buffer.from(signature);
+  // Constant time compare (which throws on a length mismatch)
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
 }
 
-async function postSlackMessage(channel: string, text: string, blocks?: any[]) {
-  if (!SLACK_BOT_TOKEN) return;
-  const payload: any = { channel, text };
-  if (blocks) payload.blocks = blocks;
+function hasValidSignature(req: any): boolean {
+  return verifySlackSignature(
+    req.rawBody ?? "",
+    req.header("x-slack-timestamp"),
+    req.header("x-slack-signature")
+  );
+}
 
-  await fetch("https://slack.com/api/chat.postMessage", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json; charset=utf-8",
-      Authorization: `Bearer ${SLACK_BOT_TOKEN}`,
-    },
-    body: JSON.stringify(payload),
-  });
+/**
+ * Body parser `verify` hook that keeps the raw body of Slack requests for
+ * signature checks. Install it on the app's json and urlencoded parsers,
+ * since whichever runs first consumes the stream.
+ */
+export function captureSlackRawBody(req: any, _res: any, buf: Buffer) {
+  if ((req.originalUrl || req.url || "").startsWith("/slack")) {
+    req.rawBody = buf.toString("utf8");
+  }
+}
+
+// One cookie from the request's Cookie header
+function cookieValue(req: any, name: string): string | undefined {
+  for (const part of String(req.headers.cookie || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+// Slack retries an event until it is acknowledged, up to three times
+// over about an hour; remember handled event_ids long enough to drop them
+const EVENT_DEDUP_TTL_MS = 60 * 60 * 1000;
+const EVENT_DEDUP_MAX_ENTRIES = 10000;
+
+export class RecentEventIds {
+  private seen = new Map<string, number>();
+
+  constructor(private ttlMs: number, private maxEntries: number) {}
+
+  // Records the id and returns false if it was already seen
+  add(id: string): boolean {
+    const now = Date.now();
+    const expiresAt = this.seen.get(id);
+    if (expiresAt && expiresAt > now) return false;
+
+    this.seen.delete(id);
+    this.seen.set(id, now + this.ttlMs);
+    // Map keeps insertion order, so the oldest entries come first
+    for (const [key, expiry] of this.seen) {
+      if (expiry > now && this.seen.size <= this.maxEntries) break;
+      this.seen.delete(key);
+    }
+    return true;
+  }
+}
+
+const recentEvents = new RecentEventIds(EVENT_DEDUP_TTL_MS, EVENT_DEDUP_MAX_ENTRIES);
+
+// Run a Slack call with the workspace's bot token. Failed calls are logged
+// by the client; handlers carry on without the message.
+async function quietly<T>(teamId: string, call: (options: CallOptions) => Promise<T>): Promise<T | undefined> {
+  try {
+    const token = await slackInstallations.tokenFor(teamId);
+    if (!token) return undefined;
+    return await call({ token });
+  } catch (error) {
+    // Slack API errors are already logged by the client; token lookups are not
+    if (!(error instanceof SlackApiError)) console.error("[Slack] Call failed:", error);
+    return undefined;
+  }
+}
+
+function postSlackMessage(teamId: string, channel: string, text: string, blocks?: any[], threadTs?: string) {
+  return quietly(teamId, (options) => slackClient.postMessage({ channel, text, blocks, thread_ts: threadTs }, options));
 }
 
-async function postEphemeralMessage(
+function postEphemeralMessage(
+  teamId: string,
   channel: string,
   user: string,
   text: string,
-  blocks?: any[]
+  blocks?: any[],
+  threadTs?: string
 ) {
-  if (!SLACK_BOT_TOKEN) return;
-  const payload: any = { channel, user, text };
-  if (blocks) payload.blocks = blocks;
-
-  await fetch("https://slack.com/api/chat.postEphemeral", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json; charset=utf-8",
-      Authorization: `Bearer ${SLACK_BOT_TOKEN}`,
-    },
-    body: JSON.stringify(payload),
-  });
+  return quietly(teamId, (options) =>
+    slackClient.postEphemeral({ channel, user, text, blocks, thread_ts: threadTs }, options)
+  );
 }
 
-async function uploadSlackFile(
+function uploadSlackFile(
+  teamId: string,
   channel: string,
   filename: string,
   buffer: Buffer,
-  title?: string
+  title?: string,
+  threadTs?: string
 ) {
-  if (!SLACK_BOT_TOKEN) return;
-  // Use FormData (Node 18+/undici)
-  const form = new FormData();
-  form.append("channels", channel);
-  form.append("filename", filename);
-  form.append("title", title || filename);
-  // Convert Node Buffer to a Blob/File compatible object for FormData
-  const uint = new Uint8Array(buffer); // safe view over underlying data
-  const fileBlob = new Blob([uint], { type: "audio/mpeg" });
-  // Some runtimes support File; fallback to Blob with filename parameter
-  form.append(
-    "file",
-    (globalThis as any).File
-      ? new File([fileBlob], filename, { type: "audio/mpeg" })
-      : fileBlob,
-    filename
+  return quietly(teamId, (options) =>
+    slackClient.uploadFile({ channel, filename, file: buffer, title, thread_ts: threadTs }, options)
   );
-  await fetch("https://slack.com/api/files.upload", {
-    method: "POST",
-    headers: { Authorization: `Bearer ${SLACK_BOT_TOKEN}` },
-    body: form as any,
-  });
+}
+
+// Action blocks posted in a thread carry its ts in their block_id, so clicks
+// on ephemeral messages (which lack thread_ts) still find the thread session
+const THREAD_BLOCK_PREFIX = "thread:";
+
+function actionsBlockId(threadTs?: string) {
+  return threadTs ? { block_id: `${THREAD_BLOCK_PREFIX}${threadTs}` } : {};
+}
+
+function threadOf(payload: InteractivePayload): string | undefined {
+  const blockId = payload.actions?.[0]?.block_id || "";
+  if (blockId.startsWith(THREAD_BLOCK_PREFIX)) return blockId.slice(THREAD_BLOCK_PREFIX.length);
+  return payload.container?.thread_ts || payload.message?.thread_ts;
 }
 
 // Helper function to create persona selection blocks
-function createPersonaSelectionBlocks() {
+async function createPersonaSelectionBlocks(threadTs?: string) {
+  const personas = await personaRegistry.list();
   return [
     {
       type: "section",
@@ -197,6 +208,7 @@ function createPersonaSelectionBlocks() {
     },
     {
       type: "actions",
+      ...actionsBlockId(threadTs),
       elements: [
         {
           type: "static_select",
@@ -205,16 +217,17 @@ function createPersonaSelectionBlocks() {
             text: "Select a persona...",
           },
           action_id: "select_persona",
-          options: DIGITAL_TWINS.map((twin) => ({
+          // Slack allows at most 100 options per select
+          options: personas.slice(0, 100).map((persona) => ({
             text: {
               type: "plain_text",
-              text: `${twin.emoji} ${twin.name}`,
+              text: `${persona.emoji} ${persona.name}`,
             },
             description: {
               type: "plain_text",
-              text: twin.description,
+              text: (persona.description || persona.type).slice(0, 75),
             },
-            value: twin.id,
+            value: persona.slug,
           })),
         },
       ],
@@ -231,13 +244,29 @@ function createPersonaSelectionBlocks() {
   ];
 }
 
+// The voice button points at the recorded reply; Slack caps button values
+// at 2000 characters, which a full reply can exceed
+function voiceButton(ref: SlackTurnRef) {
+  return {
+    type: "button",
+    text: {
+      type: "plain_text",
+      text: "🎤 Get Voice Response",
+    },
+    value: JSON.stringify(ref),
+    action_id: "generate_voice",
+  };
+}
+
 // Helper function to create conversation management blocks
-function createConversationBlocks(
+async function createConversationBlocks(
   persona: string,
   userMessage: string,
-  response: string
+  response: string,
+  threadTs?: string,
+  voiceRef?: SlackTurnRef
 ) {
-  const twin = DIGITAL_TWINS.find((t) => t.id === persona);
+  const twin = await personaRegistry.resolve(persona);
   return [
     {
       type: "section",
@@ -248,16 +277,9 @@ function createConversationBlocks(
     },
     {
       type: "actions",
+      ...actionsBlockId(threadTs),
       elements: [
-        {
-          type: "button",
-          text: {
-            type: "plain_text",
-            text: "🎤 Get Voice Response",
-          },
-          value: JSON.stringify({ persona, text: response }),
-          action_id: "generate_voice",
-        },
+        ...(voiceRef ? [voiceButton(voiceRef)] : []),
         {
           type: "button",
           text: {
@@ -280,54 +302,65 @@ function createConversationBlocks(
   ];
 }
 
-// Get or create user conversation context
-function getUserConversation(userId: string) {
-  if (!userConversations.has(userId)) {
-    userConversations.set(userId, {
-      conversationHistory: [],
-      lastActivity: Date.now(),
-    });
-  }
-  const conv = userConversations.get(userId)!;
-  conv.lastActivity = Date.now();
-  return conv;
-}
-
-// Generate AI response using existing conversation logic
+// Generate AI response using the configured LLM provider; `conversationId`
+// applies any twin revision pinned to the session's conversation
 async function generatePersonaResponse(
   persona: string,
   userMessage: string,
-  conversationHistory: any[]
+  conversationHistory: HistoryEntry[],
+  conversationId?: number
 ) {
   try {
-    // Use your existing conversation manager or create a simple response
-    // For now, create a contextual response based on persona
-    const twin = DIGITAL_TWINS.find((t) => t.id === persona);
+    const twin = await personaRegistry.resolve(persona);
     if (!twin) return "I'm sorry, I couldn't find that persona.";
 
-    // Create a contextual prompt based on the persona
-    const contextualPrompt = `You are ${twin.name}, ${twin.description}. 
-Your expertise includes: ${twin.expertise.join(", ")}.
-Respond to this message in character: "${userMessage}"
-Keep your response conversational and under 300 words.`;
-
-    // Here you would integrate with your AI service (Anthropic, OpenAI, etc.)
-    // For now, return a placeholder response
-    return `As ${twin.name}, I find your question about "${userMessage}" quite intriguing. Based on my expertise in ${twin.expertise[0]}, I would suggest... [This would be replaced with actual AI-generated content]`;
+    return await conversationManager.generateResponse(
+      twin.slug,
+      userMessage,
+      conversationHistory,
+      { conversationId }
+    );
   } catch (error) {
     console.error("Error generating persona response:", error);
     return "I'm having trouble thinking right now. Please try again in a moment.";
   }
 }
 
+async function personaName(persona: string) {
+  return (await personaRegistry.resolve(persona))?.name || persona;
+}
+
+// `--private` anywhere in a command keeps the reply visible to the caller only
+function commandVisibility(text: string): { text: string; responseType: "ephemeral" | "in_channel" } {
+  const isPrivate = /(^|\s)--private(?=\s|$)/.test(text);
+  return {
+    text: text.replace(/(^|\s)--private(?=\s|$)/g, " ").trim(),
+    responseType: isPrivate ? "ephemeral" : "in_channel",
+  };
+}
+
+// Replace a command's placeholder reply through its response_url. This
+// works in channels the bot hasn't joined; failures are logged by the client.
+async function replyToCommand(payload: SlashCommandPayload, message: ResponseUrlMessage) {
+  try {
+    await slackClient.respond(payload.response_url, { replace_original: true, ...message });
+  } catch {
+    /* logged by slackClient */
+  }
+}
+
 // Handle /chat command
 async function handleChatCommand(payload: SlashCommandPayload, res: any) {
-  const message = (payload.text || "").trim();
-  const userConv = getUserConversation(payload.user_id);
+  const { text: message, responseType } = commandVisibility(payload.text || "");
+  const session = await slackSessions.get({
+    teamId: payload.team_id,
+    userId: payload.user_id,
+    channelId: payload.channel_id,
+  });
 
   if (!message) {
     // Show persona selection if no message provided
-    const blocks = createPersonaSelectionBlocks();
+    const blocks = await createPersonaSelectionBlocks();
     res.json({
       response_type: "ephemeral",
       text: "Choose a persona to chat with:",
@@ -336,9 +369,9 @@ async function handleChatCommand(payload: SlashCommandPayload, res: any) {
     return;
   }
 
-  if (!userConv.selectedPersona) {
+  if (!session.selectedPersona) {
     // No persona selected, show selection
-    const blocks = createPersonaSelectionBlocks();
+    const blocks = await createPersonaSelectionBlocks();
     res.json({
       response_type: "ephemeral",
       text: "Please select a persona first:",
@@ -347,54 +380,120 @@ async function handleChatCommand(payload: SlashCommandPayload, res: any) {
     return;
   }
 
-  // Generate response from selected persona
-  res.send(
-    `💭 Thinking as ${
-      DIGITAL_TWINS.find((t) => t.id === userConv.selectedPersona)?.name
-    }...`
-  );
+  // Generate response from selected persona; the placeholder is replaced
+  // with the answer once it is ready
+  const persona = session.selectedPersona;
+  const name = await personaName(persona);
+  res.json({ response_type: responseType, text: `💭 Thinking as ${name}...` });
 
   // Async response
   (async () => {
     try {
       const response = await generatePersonaResponse(
-        userConv.selectedPersona!,
+        persona,
         message,
-        userConv.conversationHistory
-      );
-
-      // Add to conversation history
-      userConv.conversationHistory.push(
-        { role: "user", content: message },
-        {
-          role: "assistant",
-          content: response,
-          persona: userConv.selectedPersona,
-        }
+        session.history,
+        session.conversationId
       );
+      const voiceRef = await slackSessions.recordExchange(session, message, response, name);
 
-      const blocks = createConversationBlocks(
-        userConv.selectedPersona!,
+      const blocks = await createConversationBlocks(
+        persona,
         message,
-        response
+        response,
+        undefined,
+        voiceRef
       );
-      await postSlackMessage(payload.channel_id, "", blocks);
+      await replyToCommand(payload, { response_type: responseType, text: `${name}: ${response}`, blocks });
     } catch (error) {
       console.error("Chat command error:", error);
-      await postSlackMessage(
-        payload.channel_id,
-        "Sorry, I encountered an error processing your message."
+      await replyToCommand(payload, {
+        response_type: responseType,
+        text: "Sorry, I encountered an error processing your message.",
+      });
+    }
+  })();
+}
+
+// Handle /panel command: several personas answer in one thread
+async function handlePanelCommand(payload: SlashCommandPayload, res: any) {
+  const teamId = payload.team_id;
+  const parsed = parsePanelCommand(payload.text || "");
+  if (!parsed) {
+    res.send("Name the panelists, then your question, e.g. `/panel Einstein, Jobs, Disney: how do we launch this?`");
+    return;
+  }
+  const { panelists, unknown } = await resolvePanelists(parsed.names);
+  if (unknown.length) {
+    res.send(`I don't know ${unknown.map((name) => `"${name}"`).join(", ")}. Use \`/personas\` to see who's available.`);
+    return;
+  }
+  if (panelists.length < 2) {
+    res.send("A panel needs at least two different personas. Use `/chat` to talk to one.");
+    return;
+  }
+  if (panelists.length > MAX_PANELISTS) {
+    res.send(`A panel can have at most ${MAX_PANELISTS} personas.`);
+    return;
+  }
+
+  const names = panelists.map((persona) => `${persona.emoji} ${persona.name}`).join(", ");
+  res.json({ response_type: "ephemeral", text: `🎙️ Convening ${names}...` });
+
+  (async () => {
+    // The panel needs a message of its own to thread under
+    let header;
+    try {
+      const token = await slackInstallations.tokenFor(teamId);
+      header = token
+        ? await slackClient.postMessage(
+            {
+              channel: payload.channel_id,
+              text: `🎙️ *Panel:* ${parsed.question}\nWith ${names}, asked by <@${payload.user_id}>. Mention me in this thread to follow up, or name a panelist to ask them directly.`,
+            },
+            { token }
+          )
+        : undefined;
+    } catch (error) {
+      const reason =
+        error instanceof SlackApiError && (error.code === "not_in_channel" || error.code === "channel_not_found")
+          ? "I'm not a member of this channel. Invite me with `/invite` and try again."
+          : "something went wrong posting to the channel; please try again in a moment.";
+      console.error("Panel header error:", error);
+      await replyToCommand(payload, { response_type: "ephemeral", text: `❌ Couldn't start the panel: ${reason}` });
+      return;
+    }
+    if (!header) {
+      await replyToCommand(payload, { response_type: "ephemeral", text: "❌ Couldn't start the panel: the bot has no token for this workspace." });
+      return;
+    }
+
+    try {
+      const session = await slackSessions.startPanel(
+        await slackSessions.get({
+          teamId,
+          userId: payload.user_id,
+          channelId: payload.channel_id,
+          threadTs: header.ts,
+        }),
+        panelists.map((persona) => persona.slug)
       );
+      await replyToCommand(payload, { response_type: "ephemeral", text: "✅ The panel is answering in the thread." });
+      await replyAsPanel(session, parsed.question, payload.user_id, payload.channel_id, header.ts);
+    } catch (error) {
+      console.error("Panel command error:", error);
+      await postSlackMessage(teamId, payload.channel_id, "Sorry, the panel ran into an error. Please try again.", undefined, header.ts);
     }
   })();
 }
 
 // Handle /personas command
 async function handlePersonasCommand(payload: SlashCommandPayload, res: any) {
-  const personaList = DIGITAL_TWINS.map(
+  const personas = await personaRegistry.list();
+  const personaList = personas.map(
     (twin) =>
       `${twin.emoji} *${twin.name}* - ${
-        twin.description
+        twin.description || twin.type
       }\n   _Expertise: ${twin.expertise.join(", ")}_`
   ).join("\n\n");
 
@@ -428,57 +527,200 @@ async function handlePersonasCommand(payload: SlashCommandPayload, res: any) {
   });
 }
 
+// Answer `message` as the session's persona and post the reply where it was asked
+async function replyInSession(
+  session: SlackChatSession,
+  message: string,
+  speakerId: string,
+  channel: string,
+  threadTs?: string
+) {
+  const persona = session.selectedPersona!;
+  const response = await generatePersonaResponse(persona, message, session.history, session.conversationId);
+  const voiceRef = await slackSessions.recordExchange(session, message, response, await personaName(persona), speakerId);
+
+  const blocks = await createConversationBlocks(persona, message, response, threadTs, voiceRef);
+  await postSlackMessage(session.teamId, channel, "", blocks, threadTs);
+}
+
+function createPanelReplyBlocks(persona: Persona, text: string, threadTs?: string, voiceRef?: SlackTurnRef) {
+  const blocks: any[] = [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: `*${persona.emoji} ${persona.name}:*\n${text}` },
+    },
+  ];
+  if (voiceRef) {
+    blocks.push({ type: "actions", ...actionsBlockId(threadTs), elements: [voiceButton(voiceRef)] });
+  }
+  return blocks;
+}
+
+async function panelPersonas(session: SlackChatSession): Promise<Persona[]> {
+  const personas = await Promise.all((session.panelists || []).map((slug) => personaRegistry.resolve(slug)));
+  return personas.filter((persona): persona is Persona => Boolean(persona));
+}
+
+/**
+ * Answer a message in a panel thread. A message that names panelists goes
+ * to them only; otherwise every panelist answers in turn, each reply
+ * posted as soon as it is ready.
+ */
+async function replyAsPanel(
+  session: SlackChatSession,
+  message: string,
+  speakerId: string,
+  channel: string,
+  threadTs?: string
+) {
+  const panel = await panelPersonas(session);
+  const panelNames = panel.map((persona) => persona.name);
+  const addressed = addressedPanelists(message, panel);
+  // The round sees the thread as it was before this question
+  const history = [...session.history];
+  await slackSessions.recordPanelQuestion(session, message, panelNames, speakerId);
+  await runPanelRound(panel, message, history, {
+    speakers: addressed.length ? addressed : panel,
+    conversationId: session.conversationId,
+    onReply: async (reply) => {
+      const persona = panel.find((panelist) => panelist.slug === reply.persona)!;
+      const voiceRef = await slackSessions.recordPanelReply(session, message, reply, panelNames);
+      await postSlackMessage(
+        session.teamId,
+        channel,
+        `${reply.name}: ${reply.text}`,
+        createPanelReplyBlocks(persona, reply.text, threadTs, voiceRef),
+        threadTs
+      );
+    },
+  });
+}
+
+async function openSlackView(teamId: string, triggerId: string, view: any) {
+  return Boolean(await quietly(teamId, (options) => slackClient.openView(triggerId, view, options)));
+}
+
+// Render the user's App Home tab
+async function publishHome(teamId: string, userId: string) {
+  const [personas, sessions, conversations] = await Promise.all([
+    personaRegistry.list(),
+    slackSessions.listForUser(teamId, userId),
+    storage.getConversationsByParticipant(`slack:${userId}`),
+  ]);
+  const recent = conversations
+    .filter((conversation) => (conversation.metadata as any)?.source === "slack")
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  await quietly(teamId, (options) =>
+    slackClient.publishView(userId, homeView({ personas, sessions, conversations: recent }), options)
+  );
+}
+
+type SlackDebateOptions = { topic: string; speakers?: string[]; rounds?: number; moderator?: boolean };
+
+// Generate a debate and format its transcript for Slack
+async function renderDebate(options: SlackDebateOptions) {
+  const { debate } = await debateService.runDebate(
+    { ...options, includeAudio: false },
+    "slack"
+  );
+  const verdict = debate.moderator ? "" : `\n\n*⚖️ Verdict:* ${debate.verdict}`;
+  return { debate, text: `*🎭 Debate: ${options.topic}*\n${debate.combinedText}${verdict}` };
+}
+
+// Generate a debate and post it to the channel (or thread)
+async function postDebate(teamId: string, channel: string, options: SlackDebateOptions, threadTs?: string) {
+  const { topic } = options;
+  try {
+    const { debate, text } = await renderDebate(options);
+    await postSlackMessage(teamId, channel, text, undefined, threadTs);
+    if (debate.audioBuffer && debate.audioBuffer.length < 24_000_000) {
+      await uploadSlackFile(
+        teamId,
+        channel,
+        `debate-${Date.now()}.mp3`,
+        debate.audioBuffer,
+        `Debate Audio: ${topic}`,
+        threadTs
+      );
+    }
+  } catch (err) {
+    console.error("Debate generation failed", err);
+    await postSlackMessage(
+      teamId,
+      channel,
+      `❌ Failed to generate debate for topic: ${topic}`,
+      undefined,
+      threadTs
+    );
+  }
+}
+
 // Handle /debate command (existing functionality)
 async function handleDebateCommand(payload: SlashCommandPayload, res: any) {
-  const topic = (payload.text || "").trim();
+  const teamId = payload.team_id;
+  const { text: topic, responseType } = commandVisibility(payload.text || "");
   if (!topic) {
-    res.send("Please provide a topic, e.g. `/debate AI ethics`");
+    // Without a topic, let the user set the debate up in a modal
+    const personas = await personaRegistry.list();
+    if (await openSlackView(teamId, payload.trigger_id, debateModal(personas, payload.channel_id))) {
+      res.send();
+    } else {
+      res.send("Please provide a topic, e.g. `/debate AI ethics`");
+    }
     return;
   }
 
-  res.send(
-    `🎭 Generating debate on "${topic}" between digital twin personas...`
-  );
+  res.json({
+    response_type: responseType,
+    text: `🎭 Generating debate on "${topic}" between digital twin personas...`,
+  });
 
-  // Async processing
+  // Async processing; the placeholder is replaced with the transcript
   (async () => {
     try {
-      const debate = await generateDebate({ topic, includeAudio: false });
-      await postSlackMessage(
-        payload.channel_id,
-        `*🎭 Debate: ${topic}*\n${debate.combinedText}`
-      );
-      if (debate.audioBuffer && debate.audioBuffer.length < 24_000_000) {
-        await uploadSlackFile(
-          payload.channel_id,
-          `debate-${Date.now()}.mp3`,
-          debate.audioBuffer,
-          `Debate Audio: ${topic}`
-        );
-      }
+      const { text } = await renderDebate({ topic });
+      await replyToCommand(payload, { response_type: responseType, text });
     } catch (err) {
       console.error("Debate generation failed", err);
-      await postSlackMessage(
-        payload.channel_id,
-        `❌ Failed to generate debate for topic: ${topic}`
-      );
+      await replyToCommand(payload, {
+        response_type: responseType,
+        text: `❌ Failed to generate debate for topic: ${topic}`,
+      });
     }
   })();
 }
 
-// Handle Slack events (app_mention, message.channels, message.im)
-async function handleSlackEvent(event: any) {
+// Handle Slack events (app_mention, message.channels, message.im, app_home_opened,
+// app_uninstalled, tokens_revoked)
+async function handleSlackEvent(event: any, teamId: string) {
   console.log(`[Slack] Handling event: ${event.type}`);
 
   switch (event.type) {
     case "app_mention":
-      await handleAppMention(event);
+      await handleAppMention(event, teamId);
       break;
 
     case "message":
       // Only handle direct messages (not channel messages to avoid spam)
       if (event.channel_type === "im") {
-        await handleDirectMessage(event);
+        await handleDirectMessage(event, teamId);
+      }
+      break;
+
+    case "app_home_opened":
+      if (event.tab === "home") {
+        await publishHome(teamId, event.user);
+      }
+      break;
+
+    case "app_uninstalled":
+      await slackInstallations.uninstall(teamId);
+      break;
+
+    case "tokens_revoked":
+      // Revoked user tokens don't matter; a revoked bot token ends the install
+      if (event.tokens?.bot?.length) {
+        await slackInstallations.uninstall(teamId);
       }
       break;
 
@@ -487,9 +729,11 @@ async function handleSlackEvent(event: any) {
   }
 }
 
-// Handle @DigitalTwinBot mentions in channels
-async function handleAppMention(event: any) {
+// Handle @DigitalTwinBot mentions in channels. Replies always go in the
+// thread of the mention, and each thread keeps its own persona and history.
+async function handleAppMention(event: any, teamId: string) {
   const { user, channel, text } = event;
+  const threadTs = event.thread_ts || event.ts;
 
   // Remove the bot mention from the text
   const cleanText = text.replace(/<@[UW][A-Z0-9]+>/g, "").trim();
@@ -501,19 +745,21 @@ async function handleAppMention(event: any) {
         type: "section",
         text: {
           type: "mrkdwn",
-          text: "👋 Hi! I'm DigitalTwinBot. Here's how to chat with me:\n\n• `/chat [message]` - Chat with a digital twin persona\n• `/personas` - See all available personas\n• `/debate [topic]` - Generate debates between personas\n\nOr just mention me with a question!",
+          text: "👋 Hi! I'm DigitalTwinBot. Here's how to chat with me:\n\n• `/chat [message]` - Chat with a digital twin persona\n• `/personas` - See all available personas\n• `/debate [topic]` - Generate debates between personas\n• `/panel [names]: [question]` - Ask a panel of personas\n\nOr just mention me with a question!",
         },
       },
     ];
 
-    await postSlackMessage(channel, "", helpBlocks);
+    await postSlackMessage(teamId, channel, "", helpBlocks, threadTs);
     return;
   }
 
-  // Get user conversation context
-  const userConv = getUserConversation(user);
+  // Get the thread's conversation context
+  const session = await slackSessions.inheritPersona(
+    await slackSessions.get({ teamId, userId: user, channelId: channel, threadTs })
+  );
 
-  if (!userConv.selectedPersona) {
+  if (!session.selectedPersona && !session.panelists?.length) {
     // No persona selected, show selection with the user's message queued
     const blocks = [
       {
@@ -523,59 +769,45 @@ async function handleAppMention(event: any) {
           text: `💭 I'd love to help with: "${cleanText}"\n\nFirst, choose which digital twin persona you'd like to hear from:`,
         },
       },
-      ...createPersonaSelectionBlocks().slice(1), // Skip the first intro block
+      ...(await createPersonaSelectionBlocks(threadTs)).slice(1), // Skip the first intro block
     ];
 
-    await postSlackMessage(channel, "", blocks);
+    await postSlackMessage(teamId, channel, "", blocks, threadTs);
 
     // Store the message for after persona selection
-    userConv.conversationHistory.push({ role: "user", content: cleanText });
+    await slackSessions.addPendingMessage(session, cleanText);
     return;
   }
 
-  // Generate response from selected persona
+  // Generate response from the thread's panel or selected persona
   try {
-    const response = await generatePersonaResponse(
-      userConv.selectedPersona,
-      cleanText,
-      userConv.conversationHistory
-    );
-
-    // Add to conversation history
-    userConv.conversationHistory.push(
-      { role: "user", content: cleanText },
-      {
-        role: "assistant",
-        content: response,
-        persona: userConv.selectedPersona,
-      }
-    );
-
-    const blocks = createConversationBlocks(
-      userConv.selectedPersona,
-      cleanText,
-      response
-    );
-    await postSlackMessage(channel, "", blocks);
+    await (session.panelists?.length ? replyAsPanel : replyInSession)(session, cleanText, user, channel, threadTs);
   } catch (error) {
     console.error("[Slack] Error in app mention:", error);
     await postSlackMessage(
+      teamId,
       channel,
-      "Sorry, I encountered an error processing your message. Please try again."
+      "Sorry, I encountered an error processing your message. Please try again.",
+      undefined,
+      threadTs
     );
   }
 }
 
-// Handle direct messages to the bot
-async function handleDirectMessage(event: any) {
+// Handle direct messages to the bot. Messages inside a DM thread get their
+// own session and replies in that thread.
+async function handleDirectMessage(event: any, teamId: string) {
   const { user, channel, text } = event;
+  const threadTs: string | undefined = event.thread_ts;
 
   // Skip bot messages to avoid loops
   if (event.subtype === "bot_message" || event.bot_id) return;
 
-  const userConv = getUserConversation(user);
+  const session = await slackSessions.inheritPersona(
+    await slackSessions.get({ teamId, userId: user, channelId: channel, threadTs })
+  );
 
-  if (!userConv.selectedPersona) {
+  if (!session.selectedPersona && !session.panelists?.length) {
     // Show persona selection for DMs
     const blocks = [
       {
@@ -585,55 +817,149 @@ async function handleDirectMessage(event: any) {
           text: `👋 Hi! I'm DigitalTwinBot. I can help you chat with digital twin personas of famous innovators.\n\nYou said: "${text}"\n\nWho would you like to discuss this with?`,
         },
       },
-      ...createPersonaSelectionBlocks().slice(1),
+      ...(await createPersonaSelectionBlocks(threadTs)).slice(1),
     ];
 
-    await postSlackMessage(channel, "", blocks);
+    await postSlackMessage(teamId, channel, "", blocks, threadTs);
 
     // Store the message for after persona selection
-    userConv.conversationHistory.push({ role: "user", content: text });
+    await slackSessions.addPendingMessage(session, text);
     return;
   }
 
-  // Generate response from selected persona in DM
+  // Generate response from the panel or selected persona in DM
   try {
-    const response = await generatePersonaResponse(
-      userConv.selectedPersona,
-      text,
-      userConv.conversationHistory
-    );
-
-    // Add to conversation history
-    userConv.conversationHistory.push(
-      { role: "user", content: text },
-      {
-        role: "assistant",
-        content: response,
-        persona: userConv.selectedPersona,
-      }
-    );
-
-    const blocks = createConversationBlocks(
-      userConv.selectedPersona,
-      text,
-      response
-    );
-    await postSlackMessage(channel, "", blocks);
+    await (session.panelists?.length ? replyAsPanel : replyInSession)(session, text, user, channel, threadTs);
   } catch (error) {
     console.error("[Slack] Error in direct message:", error);
     await postSlackMessage(
+      teamId,
       channel,
-      "Sorry, I encountered an error processing your message. Please try again or use `/chat` command."
+      "Sorry, I encountered an error processing your message. Please try again or use `/chat` command.",
+      undefined,
+      threadTs
     );
   }
 }
 
-// Handle interactive components (buttons, select menus)
+// Post a debate started from the modal: a short header in the channel, the
+// debate itself in its thread
+async function startModalDebate(teamId: string, userId: string, submission: DebateSubmission) {
+  const { topic, speakers, rounds, moderator, channelId } = submission;
+  let header;
+  try {
+    const names = await Promise.all(speakers.map(personaName));
+    const token = await slackInstallations.tokenFor(teamId);
+    header = token
+      ? await slackClient.postMessage(
+          {
+            channel: channelId!,
+            text: `🎭 <@${userId}> started a debate on "${topic}" between ${names.join(", ")} (${rounds} round${rounds === 1 ? "" : "s"})`,
+          },
+          { token }
+        )
+      : undefined;
+  } catch (error) {
+    // Tell the user in the app's DM why nothing appeared
+    const reason =
+      error instanceof SlackApiError && (error.code === "not_in_channel" || error.code === "channel_not_found")
+        ? `I'm not a member of <#${channelId}>. Invite me with \`/invite\` and try again.`
+        : "something went wrong posting to the channel; please try again in a moment.";
+    if (!(error instanceof SlackApiError)) console.error("[Slack] Error posting debate header:", error);
+    await postSlackMessage(teamId, userId, `❌ Couldn't start the debate on "${topic}": ${reason}`);
+    return;
+  }
+  await postDebate(teamId, channelId!, { topic, speakers, rounds, moderator }, header?.ts);
+}
+
+// Handle modal submissions. Slack expects the response to this request to
+// close the modal or report field errors, so the work runs after replying.
+async function handleViewSubmission(payload: InteractivePayload, res: any) {
+  const view = payload.view!;
+  const values = view.state?.values || {};
+  const userId = payload.user.id;
+  const teamId = payload.team?.id || "";
+
+  switch (view.callback_id) {
+    case DEBATE_MODAL: {
+      const submission = parseDebateSubmission(values);
+      const errors: Record<string, string> = {};
+      if (!submission.topic) errors.topic = "Enter a topic to debate";
+      if (submission.speakers.length < 2) errors.speakers = "Pick at least two speakers";
+      if (!submission.channelId) errors.channel = "Pick a channel to post the debate in";
+      if (Object.keys(errors).length) {
+        res.json({ response_action: "errors", errors });
+        return;
+      }
+      res.send();
+
+      try {
+        await startModalDebate(teamId, userId, submission);
+      } catch (error) {
+        console.error("[Slack] Error starting debate from modal:", error);
+      }
+      return;
+    }
+
+    case CHANNEL_DEFAULTS_MODAL: {
+      const { channelId, persona } = parseChannelDefaultsSubmission(values);
+      if (!channelId) {
+        res.json({ response_action: "errors", errors: { channel: "Pick a channel" } });
+        return;
+      }
+      res.send();
+
+      try {
+        await slackSessions.setChannelDefault(teamId, channelId, persona, `slack:${userId}`);
+        await postEphemeralMessage(
+          teamId,
+          channelId,
+          userId,
+          persona
+            ? `✅ New threads in <#${channelId}> will start with ${await personaName(persona)}.`
+            : `✅ <#${channelId}> no longer has a default persona.`
+        );
+      } catch (error) {
+        console.error("[Slack] Error saving channel default:", error);
+        await postEphemeralMessage(teamId, channelId, userId, `❌ Couldn't save the default persona for <#${channelId}>. Please try again.`);
+      }
+      return;
+    }
+
+    default:
+      console.log(`[Slack] Unhandled view submission: ${view.callback_id}`);
+      res.send();
+  }
+}
+
+// Handle interactive components (buttons, select menus, modals, App Home)
 async function handleInteractivePayload(payload: InteractivePayload, res: any) {
+  if (payload.type === "view_submission") {
+    await handleViewSubmission(payload, res);
+    return;
+  }
+
   res.status(200).send(); // Acknowledge immediately
 
+  try {
+    await handleBlockAction(payload);
+  } catch (error) {
+    console.error("[Slack] Error handling interactive action:", error);
+  }
+}
+
+// Respond to a button click or menu selection; runs after the request was acknowledged
+async function handleBlockAction(payload: InteractivePayload) {
   const userId = payload.user.id;
-  const userConv = getUserConversation(userId);
+  const teamId = payload.team?.id || "";
+  const channelId = payload.channel?.id || "";
+  const threadTs = threadOf(payload);
+  const scope = {
+    teamId,
+    userId,
+    channelId,
+    threadTs,
+  };
 
   if (!payload.actions || payload.actions.length === 0) return;
 
@@ -643,12 +969,30 @@ async function handleInteractivePayload(payload: InteractivePayload, res: any) {
     case "select_persona":
       const selectedPersona = action.selected_option?.value;
       if (selectedPersona) {
-        userConv.selectedPersona = selectedPersona;
-        const twin = DIGITAL_TWINS.find((t) => t.id === selectedPersona);
+        const session = await slackSessions.selectPersona(await slackSessions.get(scope), selectedPersona);
+        const twin = await personaRegistry.resolve(selectedPersona);
+
+        // Answer the message that was waiting for a persona
+        const pending = session.history[session.history.length - 1];
+        if (pending?.role === "user") {
+          session.history.pop();
+          try {
+            await replyInSession(session, pending.content, userId, channelId, threadTs);
+          } catch (error) {
+            console.error("[Slack] Error answering pending message:", error);
+          }
+          break;
+        }
+
         await postEphemeralMessage(
-          payload.channel?.id || "",
+          teamId,
+          channelId,
           userId,
-          `✅ Selected ${twin?.emoji} ${twin?.name}! You can now use \`/chat [your message]\` to start chatting.`
+          threadTs
+            ? `✅ Selected ${twin?.emoji} ${twin?.name} for this thread! Mention me here to keep chatting.`
+            : `✅ Selected ${twin?.emoji} ${twin?.name}! You can now use \`/chat [your message]\` to start chatting.`,
+          undefined,
+          threadTs
         );
       }
       break;
@@ -656,78 +1000,142 @@ async function handleInteractivePayload(payload: InteractivePayload, res: any) {
     case "generate_voice":
       try {
         const voiceData = JSON.parse(action.value || "{}");
+        // Buttons posted before replies were recorded carry the text itself
+        const turn = voiceData.text ? voiceData : await slackSessions.getTurn(voiceData);
+        if (!turn?.text) {
+          await postEphemeralMessage(
+            teamId,
+            channelId,
+            userId,
+            "❌ That reply is no longer available for a voice response.",
+            undefined,
+            threadTs
+          );
+          break;
+        }
+        const speaker = await personaRegistry.resolve(turn.persona || "");
         const audioBuffer = await voiceService.synthesizeSpeech({
-          text: voiceData.text,
-          persona: DIGITAL_TWINS.find((t) => t.id === voiceData.persona)?.name,
+          text: turn.text,
+          persona: speaker?.name,
+          voiceId: speaker?.voiceId,
         });
 
         if (audioBuffer && !("fallback" in audioBuffer)) {
-          await uploadSlackFile(
-            payload.channel?.id || "",
+          const uploaded = await uploadSlackFile(
+            teamId,
+            channelId,
             `voice-response-${Date.now()}.mp3`,
             audioBuffer as Buffer,
-            `Voice Response from ${
-              DIGITAL_TWINS.find((t) => t.id === voiceData.persona)?.name
-            }`
+            `Voice Response from ${speaker?.name}`,
+            threadTs
           );
+          if (!uploaded) {
+            await postEphemeralMessage(
+              teamId,
+              channelId,
+              userId,
+              "❌ The voice response was generated but couldn't be uploaded to Slack.",
+              undefined,
+              threadTs
+            );
+          }
         } else {
           await postEphemeralMessage(
-            payload.channel?.id || "",
+            teamId,
+            channelId,
             userId,
-            "🔊 Voice synthesis is temporarily unavailable, but here's the text response above!"
+            "🔊 Voice synthesis is temporarily unavailable, but here's the text response above!",
+            undefined,
+            threadTs
           );
         }
       } catch (error) {
         console.error("Voice generation error:", error);
         await postEphemeralMessage(
-          payload.channel?.id || "",
+          teamId,
+          channelId,
           userId,
-          "❌ Sorry, I couldn't generate the voice response right now."
+          "❌ Sorry, I couldn't generate the voice response right now.",
+          undefined,
+          threadTs
         );
       }
       break;
 
     case "continue_chat":
+      const continueWith = (await personaRegistry.resolve(action.value || ""))?.name;
       await postEphemeralMessage(
-        payload.channel?.id || "",
+        teamId,
+        channelId,
         userId,
-        `💬 Continue chatting with ${
-          DIGITAL_TWINS.find((t) => t.id === action.value)?.name
-        } using \`/chat [your message]\``
+        threadTs
+          ? `💬 Mention me in this thread to keep chatting with ${continueWith}`
+          : `💬 Continue chatting with ${continueWith} using \`/chat [your message]\``,
+        undefined,
+        threadTs
       );
       break;
 
     case "switch_persona":
-      userConv.selectedPersona = undefined;
-      const blocks = createPersonaSelectionBlocks();
+      await slackSessions.selectPersona(await slackSessions.get(scope), undefined);
+      const blocks = await createPersonaSelectionBlocks(threadTs);
       await postEphemeralMessage(
-        payload.channel?.id || "",
+        teamId,
+        channelId,
         userId,
         "Choose a new persona:",
-        blocks
+        blocks,
+        threadTs
       );
       break;
 
     case "start_chat":
-      const selectionBlocks = createPersonaSelectionBlocks();
+      const selectionBlocks = await createPersonaSelectionBlocks();
       await postEphemeralMessage(
-        payload.channel?.id || "",
+        teamId,
+        channelId,
         userId,
         "Choose a persona to start chatting:",
         selectionBlocks
       );
       break;
+
+    case "open_debate_modal":
+      await openSlackView(teamId, payload.trigger_id, debateModal(await personaRegistry.list(), channelId || undefined));
+      break;
+
+    case "open_channel_defaults_modal":
+      const current = channelId ? await slackSessions.getChannelDefault(teamId, channelId) : undefined;
+      await openSlackView(
+        teamId,
+        payload.trigger_id,
+        channelDefaultsModal(await personaRegistry.list(), channelId || undefined, current)
+      );
+      break;
   }
 }
 
 export function registerSlackRoutes(app: express.Express) {
+  slackSessions.start();
+
   // ALWAYS register the bare /slack URL verification endpoint.
   // Slack will POST { type: 'url_verification', challenge: '...' } and expects the raw challenge string.
   // This MUST NOT be blocked by missing secrets or other middleware.
-  // NOTE: express.json() is applied globally in index.ts before this function is invoked.
+  // NOTE: express.json() is applied globally in index.ts, with captureSlackRawBody, before this function is invoked.
   app.post("/slack", async (req: any, res: any) => {
     const { type, challenge, event } = req.body || {};
 
+    // Events are only trusted with a valid signature. URL verification is
+    // still answered without a secret so the endpoint can be set up first.
+    if (SLACK_SIGNING_SECRET ? !hasValidSignature(req) : type !== "url_verification") {
+      console.warn(
+        SLACK_SIGNING_SECRET
+          ? "[Slack] Rejected event with an invalid signature"
+          : "[Slack] Rejected event: SLACK_SIGNING_SECRET is not set"
+      );
+      return res.status(401).type("text/plain").send("invalid_signature");
+    }
+
     if (type === "url_verification") {
       if (typeof challenge === "string" && challenge.length > 0) {
         console.log(
@@ -747,8 +1155,20 @@ export function registerSlackRoutes(app: express.Express) {
     if (type === "event_callback" && event) {
       res.sendStatus(200); // Acknowledge immediately
 
+      const retryNum = req.header("x-slack-retry-num");
+      if (retryNum) {
+        console.log(
+          `[Slack] Event ${req.body.event_id} retry #${retryNum} (${req.header("x-slack-retry-reason") || "unknown reason"})`
+        );
+      }
+      // A retry of an event we already handled must not reply twice
+      if (req.body.event_id && !recentEvents.add(req.body.event_id)) {
+        console.log(`[Slack] Skipping duplicate event ${req.body.event_id}`);
+        return;
+      }
+
       try {
-        await handleSlackEvent(event);
+        await handleSlackEvent(event, req.body.team_id || event.team || "");
       } catch (error) {
         console.error("[Slack] Error handling event:", error);
       }
@@ -759,6 +1179,42 @@ export function registerSlackRoutes(app: express.Express) {
     return res.sendStatus(200);
   });
 
+  // OAuth v2 install flow for additional workspaces
+  if (slackInstallations.oauthEnabled) {
+    const redirectUri = (req: any) =>
+      process.env.SLACK_REDIRECT_URI || `${req.protocol}://${req.get("host")}/slack/oauth/callback`;
+
+    const nonceCookie = { httpOnly: true, sameSite: "lax" as const, path: "/slack/oauth" };
+
+    app.get("/slack/install", (req: any, res: any) => {
+      const nonce = slackInstallations.createNonce();
+      res.cookie(OAUTH_NONCE_COOKIE, nonce, { ...nonceCookie, secure: req.secure, maxAge: OAUTH_STATE_TTL_MS });
+      res.redirect(slackInstallations.authorizeUrl(redirectUri(req), nonce));
+    });
+
+    app.get("/slack/oauth/callback", async (req: any, res: any) => {
+      const { code, state, error } = req.query;
+      const nonce = cookieValue(req, OAUTH_NONCE_COOKIE);
+      res.clearCookie(OAUTH_NONCE_COOKIE, nonceCookie);
+      if (error || typeof code !== "string") {
+        res.status(400).type("text/plain").send(`Slack installation cancelled: ${error || "missing code"}`);
+        return;
+      }
+      try {
+        const installation = await slackInstallations.completeInstall(code, String(state || ""), redirectUri(req), nonce);
+        res
+          .status(200)
+          .type("text/plain")
+          .send(`DigitalTwinBot is installed in ${installation.teamName || installation.teamId}. You can close this window.`);
+      } catch (err: any) {
+        console.error("[Slack] OAuth installation failed:", err);
+        const status = err instanceof SlackApiError ? 502 : 400;
+        res.status(status).type("text/plain").send(`Slack installation failed: ${err?.message || "unknown error"}`);
+      }
+    });
+    console.log("[Slack] OAuth install routes registered at /slack/install");
+  }
+
   // Only register the richer Slack routes if we have a signing secret.
   if (!SLACK_SIGNING_SECRET) {
     console.warn(
@@ -766,30 +1222,19 @@ export function registerSlackRoutes(app: express.Express) {
     );
     return;
   }
-  if (!SLACK_BOT_TOKEN) {
+  if (!slackInstallations.configured) {
     console.warn(
-      "[Slack] SLACK_BOT_TOKEN not set — will not be able to post responses"
+      "[Slack] Neither SLACK_BOT_TOKEN nor SLACK_CLIENT_ID/SLACK_CLIENT_SECRET set — will not be able to post responses"
     );
   }
 
   const router = express.Router();
 
-  // Capture raw body for signature verification
-  router.use(
-    express.urlencoded({
-      extended: true,
-      verify: (req: any, _res, buf) => {
-        req.rawBody = buf.toString("utf8");
-      },
-    })
-  );
-
+  // The raw body is captured by the app's body parsers (captureSlackRawBody)
   router.post("/webhook", async (req: any, res) => {
     try {
       const raw = req.rawBody as string;
-      const ts = req.header("x-slack-timestamp");
-      const sig = req.header("x-slack-signature");
-      if (!verifySlackSignature(raw, ts, sig)) {
+      if (!hasValidSignature(req)) {
         res.status(401).send("Invalid signature");
         return;
       }
@@ -844,18 +1289,25 @@ export function registerSlackRoutes(app: express.Express) {
           await handleDebateCommand(payload, res);
           break;
 
+        case "/panel":
+          await handlePanelCommand(payload, res);
+          break;
+
         default:
           res.send(`🤖 *DigitalTwin Bot Commands:*
 • \`/chat [message]\` - Chat with a digital twin persona
 • \`/personas\` - See all available personas
 • \`/debate [topic]\` - Generate a debate between personas
-          
+• \`/panel [names]: [question]\` - Ask several personas at once in a thread
+
+Add \`--private\` to a command to keep the reply visible only to you.
 Use \`/chat\` to start a conversation!`);
       }
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error("Slack webhook error", error);
-      res.status(500).send("Internal error");
+      // Handlers acknowledge Slack early; a later failure cannot change the reply
+      if (!res.headersSent) res.status(500).send("Internal error");
     }
   });
 
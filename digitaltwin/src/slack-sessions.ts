@@ -0,0 +1,334 @@
+import { storage as defaultStorage, type IStorage } from "./storage.js";
+import type { HistoryEntry } from "./conversation-manager.js";
+import type { PanelReply } from "./panel-discussion.js";
+import type { InsertSlackChannelSettings, InsertSlackSession, SlackSession } from "./schema.js";
+
+export interface SlackSessionScope {
+  teamId: string;
+  userId: string;
+  channelId: string;
+  // Set for conversations inside a thread; the thread is then shared by everyone in it
+  threadTs?: string;
+}
+
+export interface SlackChatSession extends SlackSessionScope {
+  sessionKey: string;
+  selectedPersona?: string;
+  // Set instead of selectedPersona when the thread is a panel
+  panelists?: string[];
+  history: HistoryEntry[];
+  // Conversation record the finished exchanges are written to
+  conversationId?: number;
+}
+
+// A persona's reply in a Slack conversation record: metadata.turns[turn]
+export interface SlackTurnRef {
+  conversationId: number;
+  turn: number;
+}
+
+export interface SlackTurn {
+  persona?: string;
+  text: string;
+}
+
+interface TranscriptRecord {
+  title: string;
+  participants: string[];
+  topic: string;
+  metadata: Record<string, any>;
+}
+
+export interface SlackSessionOptions {
+  ttlMs?: number;
+  historyLimit?: number;
+  sweepIntervalMs?: number;
+}
+
+const DEFAULT_TTL_MINUTES = 24 * 60;
+const DEFAULT_HISTORY_LIMIT = 20;
+const DEFAULT_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export function sessionKeyOf(scope: SlackSessionScope): string {
+  return scope.threadTs
+    ? `${scope.teamId}:${scope.channelId}:thread:${scope.threadTs}`
+    : `${scope.teamId}:${scope.userId}:${scope.channelId}`;
+}
+
+function panelRecord(session: SlackChatSession, topic: string, panelNames: string[]): TranscriptRecord {
+  return {
+    title: `Slack panel with ${panelNames.join(", ")}`,
+    participants: panelNames,
+    topic,
+    metadata: { kind: "panel", panelists: session.panelists },
+  };
+}
+
+function fromRow(row: SlackSession): SlackChatSession {
+  return {
+    sessionKey: row.sessionKey,
+    teamId: row.teamId,
+    userId: row.userId,
+    channelId: row.channelId,
+    threadTs: row.threadTs || undefined,
+    selectedPersona: row.selectedPersona || undefined,
+    panelists: (row.panelists as string[]) || undefined,
+    history: (row.history as HistoryEntry[]) || [],
+    conversationId: row.conversationId ?? undefined,
+  };
+}
+
+/**
+ * Slack chat state (selected persona and recent history) kept in storage so
+ * it survives restarts. Sessions expire after a period without activity and
+ * every finished exchange is appended to a conversation record.
+ */
+export class SlackSessionStore {
+  private ttlMs: number;
+  private historyLimit: number;
+  private sweepIntervalMs: number;
+  private sweeper: NodeJS.Timeout | null = null;
+
+  constructor(private storage: IStorage = defaultStorage, options: SlackSessionOptions = {}) {
+    this.ttlMs = options.ttlMs ?? parseInt(process.env.SLACK_SESSION_TTL_MINUTES || String(DEFAULT_TTL_MINUTES), 10) * 60 * 1000;
+    this.historyLimit = options.historyLimit ?? parseInt(process.env.SLACK_HISTORY_LIMIT || String(DEFAULT_HISTORY_LIMIT), 10);
+    this.sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+  }
+
+  // The live session for this scope, or a fresh one if none exists or it expired
+  async get(scope: SlackSessionScope): Promise<SlackChatSession> {
+    const sessionKey = sessionKeyOf(scope);
+    const row = await this.storage.getSlackSession(sessionKey);
+    if (row && row.expiresAt.getTime() > Date.now()) {
+      return fromRow(row);
+    }
+    if (row) {
+      await this.storage.deleteSlackSession(sessionKey);
+    }
+    return { ...scope, sessionKey, history: [] };
+  }
+
+  /**
+   * A thread without a persona of its own starts with the one the user
+   * picked in the channel, or else the channel's default. Returns the
+   * session unchanged when neither is set.
+   */
+  async inheritPersona(session: SlackChatSession): Promise<SlackChatSession> {
+    if (session.selectedPersona || session.panelists?.length || !session.threadTs) return session;
+    const { teamId, userId, channelId } = session;
+    const persona =
+      (await this.get({ teamId, userId, channelId })).selectedPersona ||
+      (await this.getChannelDefault(session.teamId, session.channelId));
+    return persona ? this.selectPersona(session, persona) : session;
+  }
+
+  // Live sessions the user started, most recently active first
+  async listForUser(teamId: string, userId: string): Promise<SlackChatSession[]> {
+    return (await this.storage.getSlackSessionsByUser(teamId, userId)).map(fromRow);
+  }
+
+  async getChannelDefault(teamId: string, channelId: string): Promise<string | undefined> {
+    const settings = await this.storage.getSlackChannelSettings(teamId, channelId);
+    return settings?.defaultPersona || undefined;
+  }
+
+  async setChannelDefault(teamId: string, channelId: string, persona: string | undefined, updatedBy: string) {
+    return this.storage.saveSlackChannelSettings({
+      teamId,
+      channelId,
+      defaultPersona: persona ?? null,
+      updatedBy,
+    } as InsertSlackChannelSettings);
+  }
+
+  // Persist the session and push its expiry out by the TTL
+  async save(session: SlackChatSession): Promise<SlackChatSession> {
+    const now = new Date();
+    const row = await this.storage.saveSlackSession({
+      sessionKey: session.sessionKey,
+      teamId: session.teamId,
+      userId: session.userId,
+      channelId: session.channelId,
+      threadTs: session.threadTs ?? null,
+      selectedPersona: session.selectedPersona ?? null,
+      panelists: session.panelists ?? null,
+      history: session.history.slice(-this.historyLimit),
+      conversationId: session.conversationId ?? null,
+      lastActivity: now,
+      expiresAt: new Date(now.getTime() + this.ttlMs),
+    } as InsertSlackSession);
+    return fromRow(row);
+  }
+
+  // Switching persona starts a new conversation record; history is kept
+  async selectPersona(session: SlackChatSession, persona: string | undefined): Promise<SlackChatSession> {
+    if (session.selectedPersona !== persona || session.panelists) {
+      session.conversationId = undefined;
+    }
+    session.selectedPersona = persona;
+    session.panelists = undefined;
+    return this.save(session);
+  }
+
+  // Turn the session into a panel of several personas (slugs, in speaking order)
+  async startPanel(session: SlackChatSession, panelists: string[]): Promise<SlackChatSession> {
+    session.selectedPersona = undefined;
+    session.panelists = panelists;
+    session.conversationId = undefined;
+    return this.save(session);
+  }
+
+  // Remember a message that arrived before a persona was chosen
+  async addPendingMessage(session: SlackChatSession, content: string): Promise<SlackChatSession> {
+    session.history.push({ role: "user", content });
+    return this.save(session);
+  }
+
+  /**
+   * Add a user message and the persona's reply to the history and append
+   * them to the session's conversation record, creating it on first use.
+   * `speakerId` is who asked, which in a thread may not be who started it.
+   * Returns where the reply was recorded, if recording succeeded.
+   */
+  async recordExchange(
+    session: SlackChatSession,
+    message: string,
+    reply: string,
+    personaName: string,
+    speakerId = session.userId
+  ): Promise<SlackTurnRef | undefined> {
+    session.history.push(
+      { role: "user", content: message },
+      { role: "assistant", content: reply, persona: session.selectedPersona }
+    );
+    const ref = await this.appendTranscript(
+      session,
+      `<@${speakerId}>: ${message}\n\n${personaName}: ${reply}`,
+      speakerId,
+      {
+        title: `Slack chat with ${personaName}`,
+        participants: [personaName],
+        topic: message,
+        metadata: { kind: "chat", persona: session.selectedPersona },
+      },
+      { persona: session.selectedPersona, text: reply }
+    );
+    await this.save(session);
+    return ref;
+  }
+
+  // Like recordExchange, for a question put to a panel; each panelist's
+  // answer is recorded separately as it is posted
+  async recordPanelQuestion(
+    session: SlackChatSession,
+    message: string,
+    panelNames: string[],
+    speakerId = session.userId
+  ): Promise<SlackChatSession> {
+    session.history.push({ role: "user", content: message });
+    await this.appendTranscript(session, `<@${speakerId}>: ${message}`, speakerId, panelRecord(session, message, panelNames));
+    return this.save(session);
+  }
+
+  // One panelist's answer, so replies already posted survive a later failure
+  async recordPanelReply(
+    session: SlackChatSession,
+    message: string,
+    reply: PanelReply,
+    panelNames: string[]
+  ): Promise<SlackTurnRef | undefined> {
+    session.history.push({ role: "assistant", content: reply.text, persona: reply.persona });
+    const ref = await this.appendTranscript(
+      session,
+      `${reply.name}: ${reply.text}`,
+      undefined,
+      panelRecord(session, message, panelNames),
+      { persona: reply.persona, text: reply.text }
+    );
+    await this.save(session);
+    return ref;
+  }
+
+  // A recorded reply, e.g. for the voice button that points at it
+  async getTurn(ref: SlackTurnRef): Promise<SlackTurn | undefined> {
+    const conversation = await this.storage.getConversation(ref.conversationId);
+    const turns = ((conversation?.metadata as Record<string, any>)?.turns as SlackTurn[]) || [];
+    return turns[ref.turn];
+  }
+
+  // `speakerId` is set when the lines start with a user's message, which
+  // counts as a new exchange; a panelist's answer continues the last one.
+  // A persona's reply is also kept in metadata.turns and referenced by index.
+  private async appendTranscript(
+    session: SlackChatSession,
+    lines: string,
+    speakerId: string | undefined,
+    record: TranscriptRecord,
+    turn?: SlackTurn
+  ): Promise<SlackTurnRef | undefined> {
+    const speaker = speakerId ? [`slack:${speakerId}`] : [];
+    try {
+      const existing = session.conversationId ? await this.storage.getConversation(session.conversationId) : undefined;
+      if (existing) {
+        const metadata = (existing.metadata as Record<string, any>) || {};
+        const turns: SlackTurn[] = metadata.turns || [];
+        await this.storage.updateConversation(existing.id, {
+          participants: [...existing.participants, ...speaker.filter((entry) => !existing.participants.includes(entry))],
+          transcript: existing.transcript ? `${existing.transcript}\n\n${lines}` : lines,
+          metadata: {
+            ...metadata,
+            exchanges: (metadata.exchanges || 0) + (speakerId ? 1 : 0),
+            turns: turn ? [...turns, turn] : turns,
+          },
+        });
+        return turn ? { conversationId: existing.id, turn: turns.length } : undefined;
+      }
+
+      const created = await this.storage.createConversation({
+        title: record.title,
+        participants: [...record.participants, ...speaker],
+        topic: record.topic.slice(0, 200),
+        transcript: lines,
+        metadata: {
+          source: "slack",
+          teamId: session.teamId,
+          channelId: session.channelId,
+          threadTs: session.threadTs,
+          userId: session.userId,
+          exchanges: 1,
+          turns: turn ? [turn] : [],
+          ...record.metadata,
+        },
+      });
+      session.conversationId = created.id;
+      return turn ? { conversationId: created.id, turn: 0 } : undefined;
+    } catch (error) {
+      // Losing the transcript should not lose the reply
+      console.error("[SlackSessions] Failed to record conversation:", error);
+      return undefined;
+    }
+  }
+
+  async sweep(): Promise<number> {
+    const removed = await this.storage.deleteExpiredSlackSessions(new Date());
+    if (removed) console.log(`[SlackSessions] Removed ${removed} expired session(s)`);
+    return removed;
+  }
+
+  start() {
+    if (this.sweeper) return;
+    this.sweeper = setInterval(() => {
+      this.sweep().catch((error) => console.error("[SlackSessions] Sweep failed:", error));
+    }, this.sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  stop() {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+}
+
+export const slackSessions = new SlackSessionStore();
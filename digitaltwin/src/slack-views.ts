@@ -0,0 +1,220 @@
+import type { Persona } from "./persona-registry.js";
+import type { Conversation } from "./schema.js";
+import type { SlackChatSession } from "./slack-sessions.js";
+
+// callback_id of each modal, used to route view_submission payloads
+export const DEBATE_MODAL = "start_debate_modal";
+export const CHANNEL_DEFAULTS_MODAL = "channel_defaults_modal";
+
+const NO_DEFAULT = "none";
+const MAX_SELECT_OPTIONS = 100;
+
+// Slack view state: block_id -> action_id -> element value
+export type ViewStateValues = Record<string, Record<string, any>>;
+
+export interface DebateSubmission {
+  topic: string;
+  speakers: string[];
+  rounds: number;
+  moderator: boolean;
+  channelId?: string;
+}
+
+export interface ChannelDefaultsSubmission {
+  channelId?: string;
+  persona?: string;
+}
+
+function personaOption(persona: Persona) {
+  return {
+    text: { type: "plain_text", text: `${persona.emoji} ${persona.name}`.slice(0, 75) },
+    value: persona.slug,
+  };
+}
+
+function plain(text: string) {
+  return { type: "plain_text", text };
+}
+
+function channelSelect(channelId?: string) {
+  return {
+    type: "conversations_select",
+    action_id: "channel_select",
+    filter: { include: ["public", "private"], exclude_bot_users: true },
+    ...(channelId ? { initial_conversation: channelId } : { default_to_current_conversation: true }),
+  };
+}
+
+/**
+ * App Home tab: the user's active persona, their recent Slack
+ * conversations and buttons that open the debate and channel modals.
+ */
+export function homeView(options: {
+  personas: Persona[];
+  sessions: SlackChatSession[];
+  conversations: Conversation[];
+}) {
+  const { personas, sessions, conversations } = options;
+  const bySlug = (slug?: string) => personas.find((persona) => persona.slug === slug);
+  const latest = sessions.find((session) => session.selectedPersona);
+  const active = bySlug(latest?.selectedPersona);
+
+  const blocks: any[] = [
+    { type: "header", text: plain("🤖 Digital Twins") },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: active
+          ? `*Your active persona:* ${active.emoji} ${active.name}${latest ? ` in <#${latest.channelId}>` : ""}\n_${active.description || active.type}_`
+          : "*You have no active persona.* Mention me in a channel or use `/chat` to pick one.",
+      },
+    },
+    {
+      type: "actions",
+      elements: [
+        { type: "button", text: plain("🎭 Start a debate"), action_id: "open_debate_modal", style: "primary" },
+        { type: "button", text: plain("⚙️ Channel default persona"), action_id: "open_channel_defaults_modal" },
+      ],
+    },
+    { type: "divider" },
+    { type: "section", text: { type: "mrkdwn", text: "*Recent conversations*" } },
+  ];
+
+  if (!conversations.length) {
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: "Nothing yet — your chats with twins will show up here." }] });
+  }
+  conversations.slice(0, 5).forEach((conversation) => {
+    const metadata = (conversation.metadata as Record<string, any>) || {};
+    const where = metadata.channelId ? ` in <#${metadata.channelId}>` : "";
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${conversation.title}*${where}\n${conversation.topic.slice(0, 150)}`,
+      },
+    });
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `${metadata.exchanges || 0} exchange(s) · last active <!date^${Math.floor(new Date(conversation.updatedAt).getTime() / 1000)}^{date_short_pretty} {time}|${new Date(conversation.updatedAt).toISOString()}>`,
+        },
+      ],
+    });
+  });
+
+  return { type: "home", blocks };
+}
+
+export function debateModal(personas: Persona[], channelId?: string) {
+  return {
+    type: "modal",
+    callback_id: DEBATE_MODAL,
+    title: plain("Start a debate"),
+    submit: plain("Start"),
+    close: plain("Cancel"),
+    blocks: [
+      {
+        type: "input",
+        block_id: "topic",
+        label: plain("Topic"),
+        element: { type: "plain_text_input", action_id: "topic_input", max_length: 500, placeholder: plain("e.g. Should AI be open source?") },
+      },
+      {
+        type: "input",
+        block_id: "speakers",
+        label: plain("Speakers"),
+        hint: plain("Pick two to six personas"),
+        element: {
+          type: "multi_static_select",
+          action_id: "speakers_select",
+          max_selected_items: 6,
+          options: personas.slice(0, MAX_SELECT_OPTIONS).map(personaOption),
+        },
+      },
+      {
+        type: "input",
+        block_id: "rounds",
+        label: plain("Rounds"),
+        element: {
+          type: "static_select",
+          action_id: "rounds_select",
+          initial_option: { text: plain("2"), value: "2" },
+          options: [1, 2, 3, 4, 5].map((rounds) => ({ text: plain(String(rounds)), value: String(rounds) })),
+        },
+      },
+      {
+        type: "input",
+        block_id: "moderator",
+        optional: true,
+        label: plain("Moderator"),
+        element: {
+          type: "checkboxes",
+          action_id: "moderator_toggle",
+          options: [{ text: plain("Add a neutral moderator"), value: "moderator" }],
+        },
+      },
+      {
+        type: "input",
+        block_id: "channel",
+        label: plain("Post to"),
+        element: channelSelect(channelId),
+      },
+    ],
+  };
+}
+
+export function channelDefaultsModal(personas: Persona[], channelId?: string, current?: string) {
+  const options = [{ text: plain("No default"), value: NO_DEFAULT }, ...personas.slice(0, MAX_SELECT_OPTIONS - 1).map(personaOption)];
+  const initial = options.find((option) => option.value === current);
+  return {
+    type: "modal",
+    callback_id: CHANNEL_DEFAULTS_MODAL,
+    title: plain("Channel persona"),
+    submit: plain("Save"),
+    close: plain("Cancel"),
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: "New threads in the channel start with this persona unless the user has picked one." },
+      },
+      {
+        type: "input",
+        block_id: "channel",
+        label: plain("Channel"),
+        element: channelSelect(channelId),
+      },
+      {
+        type: "input",
+        block_id: "persona",
+        label: plain("Default persona"),
+        element: {
+          type: "static_select",
+          action_id: "persona_select",
+          options,
+          ...(initial && { initial_option: initial }),
+        },
+      },
+    ],
+  };
+}
+
+export function parseDebateSubmission(values: ViewStateValues): DebateSubmission {
+  return {
+    topic: (values.topic?.topic_input?.value || "").trim(),
+    speakers: (values.speakers?.speakers_select?.selected_options || []).map((option: any) => option.value),
+    rounds: parseInt(values.rounds?.rounds_select?.selected_option?.value || "2", 10),
+    moderator: (values.moderator?.moderator_toggle?.selected_options || []).length > 0,
+    channelId: values.channel?.channel_select?.selected_conversation || undefined,
+  };
+}
+
+export function parseChannelDefaultsSubmission(values: ViewStateValues): ChannelDefaultsSubmission {
+  const persona = values.persona?.persona_select?.selected_option?.value;
+  return {
+    channelId: values.channel?.channel_select?.selected_conversation || undefined,
+    persona: persona && persona !== NO_DEFAULT ? persona : undefined,
+  };
+}
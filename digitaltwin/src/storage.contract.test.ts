@@ -0,0 +1,299 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage.js";
+import { client, initializeTables } from "./db.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Unique per run, so the suite can share a database with earlier runs
+const run = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+function twinInput(name: string) {
+  return { name: `${name} ${run}`, type: "Tester", avatar: "avatar.png", capabilities: ["Testing"] };
+}
+
+/**
+ * The behaviour every IStorage implementation must share. Assertions only
+ * look at rows the suite created, so it also runs against a database that
+ * holds other data.
+ */
+function storageContract(createStorage: () => IStorage) {
+  let storage: IStorage;
+
+  before(() => {
+    storage = createStorage();
+  });
+
+  describe("agents", () => {
+    it("fills defaults and updates status and metrics", async () => {
+      const agent = await storage.createAgent({ name: `Agent ${run}`, type: "Tester", capabilities: ["Testing"], avatar: "a.png" });
+      assert.equal(agent.status, "idle");
+      assert.deepEqual(agent.metrics, { requests_handled: 0, success_rate: 0, avg_response_time: 0 });
+
+      assert.equal((await storage.updateAgentStatus(agent.id, "busy"))?.status, "busy");
+      const metrics = { requests_handled: 3, success_rate: 1, avg_response_time: 20 };
+      assert.deepEqual((await storage.updateAgentMetrics(agent.id, metrics))?.metrics, metrics);
+      assert.equal((await storage.getAgent(agent.id))?.status, "busy");
+    });
+
+    it("returns undefined for unknown agents", async () => {
+      assert.equal(await storage.getAgent(-1), undefined);
+      assert.equal(await storage.updateAgentStatus(-1, "busy"), undefined);
+    });
+  });
+
+  describe("tasks", () => {
+    it("fills defaults, filters, updates and deletes", async () => {
+      const agent = await storage.createAgent({ name: `Worker ${run}`, type: "Tester", capabilities: [], avatar: "a.png" });
+      const task = await storage.createTask({ title: "Write tests", assignedAgentId: agent.id });
+      assert.equal(task.status, "pending");
+      assert.equal(task.priority, "medium");
+      assert.equal(task.description, null);
+
+      const urgent = await storage.createTask({ title: "Ship", priority: "urgent", assignedAgentId: agent.id });
+      const filtered = await storage.getTasks({ assignedAgentId: agent.id, priority: "urgent" });
+      assert.deepEqual(filtered.map((entry) => entry.id), [urgent.id]);
+      assert.deepEqual((await storage.getTasksByAgent(agent.id)).map((entry) => entry.id).sort(), [task.id, urgent.id].sort());
+
+      const updated = await storage.updateTask(task.id, { description: "Both backends" });
+      assert.equal(updated?.description, "Both backends");
+      assert.equal(updated?.title, "Write tests");
+      assert.ok(updated!.updatedAt.getTime() >= task.updatedAt.getTime());
+      assert.equal((await storage.updateTaskStatus(task.id, "in_progress"))?.status, "in_progress");
+
+      assert.equal(await storage.deleteTask(task.id), true);
+      assert.equal(await storage.deleteTask(task.id), false);
+      assert.equal(await storage.getTask(task.id), undefined);
+    });
+
+    it("only applies an update when expectedStatus still matches", async () => {
+      const task = await storage.createTask({ title: "Claim me" });
+      const claimed = await storage.updateTask(task.id, { status: "in_progress" }, "pending");
+      assert.equal(claimed?.status, "in_progress");
+
+      assert.equal(await storage.updateTask(task.id, { status: "in_progress" }, "pending"), undefined);
+      assert.equal((await storage.getTask(task.id))?.status, "in_progress");
+    });
+
+    it("filters by due date", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("Due"));
+      const early = await storage.createTask({ title: "Early", assignedTwinId: twin.id, dueDate: new Date("2030-01-01T00:00:00Z") });
+      await storage.createTask({ title: "Late", assignedTwinId: twin.id, dueDate: new Date("2030-06-01T00:00:00Z") });
+      await storage.createTask({ title: "Undated", assignedTwinId: twin.id });
+
+      const due = await storage.getTasks({ assignedTwinId: twin.id, dueBefore: new Date("2030-03-01T00:00:00Z") });
+      assert.deepEqual(due.map((entry) => entry.id), [early.id]);
+    });
+  });
+
+  describe("digital twins", () => {
+    it("fills defaults and keeps id and createdAt on update", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("Defaults"));
+      assert.equal(twin.status, "active");
+      assert.equal((twin.configuration as any).personality, "friendly");
+
+      const updated = await storage.updateDigitalTwin(twin.id, { description: "Changed", id: twin.id + 1000, createdAt: new Date(0) });
+      assert.equal(updated?.id, twin.id);
+      assert.equal(updated?.description, "Changed");
+      assert.equal(updated?.createdAt.getTime(), twin.createdAt.getTime());
+    });
+
+    it("only applies an update when expectedUpdatedAt still matches", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("Optimistic"));
+      // updatedAt has millisecond precision, so leave the clock room to move
+      await sleep(5);
+      const first = await storage.updateDigitalTwin(twin.id, { description: "First" }, twin.updatedAt);
+      assert.equal(first?.description, "First");
+
+      const stale = await storage.updateDigitalTwin(twin.id, { description: "Stale" }, twin.updatedAt);
+      assert.equal(stale, undefined);
+      assert.equal((await storage.getDigitalTwin(twin.id))?.description, "First");
+    });
+
+    it("removes revisions, documents and Q&A pairs with the twin", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("Delete"));
+      await storage.createTwinRevision({ twinId: twin.id, revision: 1, changeType: "create", snapshot: {} });
+      await storage.createTwinDocument({ twinId: twin.id, fileName: "notes.md", format: "markdown", content: "Notes" });
+      await storage.createTwinQaPair({ twinId: twin.id, question: "Q?", answer: "A." });
+
+      assert.equal(await storage.deleteDigitalTwin(twin.id), true);
+      assert.equal(await storage.getDigitalTwin(twin.id), undefined);
+      assert.deepEqual(await storage.getTwinRevisions(twin.id), []);
+      assert.deepEqual(await storage.getTwinDocuments(twin.id), []);
+      assert.deepEqual(await storage.getTwinQaPairs(twin.id), []);
+      assert.equal(await storage.deleteDigitalTwin(twin.id), false);
+    });
+  });
+
+  describe("twin revisions", () => {
+    it("lists newest first and finds a revision by number", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("Revisions"));
+      const first = await storage.createTwinRevision({ twinId: twin.id, revision: 1, changeType: "create", snapshot: { name: "v1" } });
+      await storage.createTwinRevision({ twinId: twin.id, revision: 2, changeType: "update", snapshot: { name: "v2" }, note: "Renamed" });
+      assert.equal(first!.changedBy, "system");
+      assert.deepEqual(first!.diff, []);
+
+      assert.deepEqual((await storage.getTwinRevisions(twin.id)).map((entry) => entry.revision), [2, 1]);
+      assert.equal((await storage.getTwinRevision(twin.id, 2))?.note, "Renamed");
+      assert.equal(await storage.getTwinRevision(twin.id, 3), undefined);
+    });
+
+    it("refuses a revision number the twin already has", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("Duplicate revision"));
+      await storage.createTwinRevision({ twinId: twin.id, revision: 1, changeType: "create", snapshot: { name: "v1" } });
+      const duplicate = await storage.createTwinRevision({ twinId: twin.id, revision: 1, changeType: "update", snapshot: { name: "v2" } });
+      assert.equal(duplicate, undefined);
+      assert.deepEqual((await storage.getTwinRevision(twin.id, 1))?.snapshot, { name: "v1" });
+    });
+  });
+
+  describe("twin documents", () => {
+    it("lists oldest first and deletes a document with its Q&A pairs", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("Documents"));
+      const first = await storage.createTwinDocument({ twinId: twin.id, fileName: "a.txt", format: "text", content: "A" });
+      const second = await storage.createTwinDocument({ twinId: twin.id, fileName: "b.json", format: "json-qa", content: "[]" });
+      assert.equal(first.addedBy, "upload");
+      await storage.createTwinQaPair({ twinId: twin.id, documentId: second.id, question: "Q?", answer: "A." });
+      const authored = await storage.createTwinQaPair({ twinId: twin.id, question: "Mine?", answer: "Yes." });
+
+      assert.deepEqual((await storage.getTwinDocuments(twin.id)).map((entry) => entry.id), [first.id, second.id]);
+      const other = await storage.createDigitalTwin(twinInput("Other"));
+      assert.equal(await storage.deleteTwinDocument(other.id, second.id), false);
+
+      assert.equal(await storage.deleteTwinDocument(twin.id, second.id), true);
+      assert.deepEqual((await storage.getTwinDocuments(twin.id)).map((entry) => entry.id), [first.id]);
+      assert.deepEqual((await storage.getTwinQaPairs(twin.id)).map((entry) => entry.id), [authored.id]);
+    });
+  });
+
+  describe("twin Q&A pairs", () => {
+    it("updates a pair but never moves it to another twin", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("QA"));
+      const other = await storage.createDigitalTwin(twinInput("QA other"));
+      const pair = await storage.createTwinQaPair({ twinId: twin.id, question: "Why?", answer: "Because." });
+      assert.equal(pair.documentId, null);
+
+      const updated = await storage.updateTwinQaPair(twin.id, pair.id, { answer: "Because tests.", twinId: other.id });
+      assert.equal(updated?.answer, "Because tests.");
+      assert.equal(updated?.twinId, twin.id);
+      assert.deepEqual((await storage.getTwinQaPairs(other.id)), []);
+    });
+
+    it("does not touch a pair through another twin", async () => {
+      const twin = await storage.createDigitalTwin(twinInput("QA owner"));
+      const other = await storage.createDigitalTwin(twinInput("QA stranger"));
+      const pair = await storage.createTwinQaPair({ twinId: twin.id, question: "Who?", answer: "Me." });
+
+      assert.equal(await storage.updateTwinQaPair(other.id, pair.id, { answer: "Them." }), undefined);
+      assert.equal(await storage.deleteTwinQaPair(other.id, pair.id), false);
+      assert.equal(await storage.deleteTwinQaPair(twin.id, pair.id), true);
+      assert.deepEqual(await storage.getTwinQaPairs(twin.id), []);
+    });
+  });
+
+  describe("slack sessions", () => {
+    const scope = { teamId: `T${run}`, userId: "U1", channelId: "C1" };
+    const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+    it("upserts by session key and keeps the original row", async () => {
+      const created = await storage.saveSlackSession({ ...scope, sessionKey: `${run}:one`, expiresAt: inAnHour() });
+      assert.deepEqual(created.history, []);
+      assert.equal(created.selectedPersona, null);
+
+      const saved = await storage.saveSlackSession({
+        ...scope,
+        sessionKey: `${run}:one`,
+        selectedPersona: "einstein",
+        history: [{ role: "user", content: "Hi" }],
+        expiresAt: inAnHour(),
+      });
+      assert.equal(saved.id, created.id);
+      assert.equal(saved.createdAt.getTime(), created.createdAt.getTime());
+      assert.equal((await storage.getSlackSession(`${run}:one`))?.selectedPersona, "einstein");
+    });
+
+    it("lists a user's live sessions, most recent first, and sweeps expired ones", async () => {
+      const user = { ...scope, userId: `U${run}` };
+      await storage.saveSlackSession({ ...user, sessionKey: `${run}:old`, lastActivity: new Date(Date.now() - 60000), expiresAt: inAnHour() });
+      await storage.saveSlackSession({ ...user, sessionKey: `${run}:new`, lastActivity: new Date(), expiresAt: inAnHour() });
+      await storage.saveSlackSession({ ...user, sessionKey: `${run}:expired`, expiresAt: new Date(Date.now() - 1000) });
+
+      const live = await storage.getSlackSessionsByUser(user.teamId, user.userId);
+      assert.deepEqual(live.map((session) => session.sessionKey), [`${run}:new`, `${run}:old`]);
+
+      assert.ok((await storage.deleteExpiredSlackSessions(new Date())) >= 1);
+      assert.equal(await storage.getSlackSession(`${run}:expired`), undefined);
+      assert.equal(await storage.deleteSlackSession(`${run}:new`), true);
+      assert.equal(await storage.deleteSlackSession(`${run}:new`), false);
+    });
+  });
+
+  describe("slack channel settings", () => {
+    it("upserts per team and channel", async () => {
+      const teamId = `T${run}`;
+      assert.equal(await storage.getSlackChannelSettings(teamId, "C1"), undefined);
+      const first = await storage.saveSlackChannelSettings({ teamId, channelId: "C1", defaultPersona: "jobs", updatedBy: "U1" });
+      const second = await storage.saveSlackChannelSettings({ teamId, channelId: "C1", defaultPersona: null, updatedBy: "U2" });
+
+      assert.equal(second.id, first.id);
+      const settings = await storage.getSlackChannelSettings(teamId, "C1");
+      assert.equal(settings?.defaultPersona, null);
+      assert.equal(settings?.updatedBy, "U2");
+    });
+  });
+
+  describe("slack installations", () => {
+    it("upserts by team, keeps installedAt and deletes", async () => {
+      const teamId = `T${run}`;
+      const first = await storage.saveSlackInstallation({ teamId, botToken: "xoxb-1", teamName: "Acme" });
+      const second = await storage.saveSlackInstallation({ teamId, botToken: "xoxb-2", teamName: "Acme" });
+
+      assert.equal(second.id, first.id);
+      assert.equal(second.installedAt.getTime(), first.installedAt.getTime());
+      assert.equal((await storage.getSlackInstallation(teamId))?.botToken, "xoxb-2");
+      assert.equal(await storage.deleteSlackInstallation(teamId), true);
+      assert.equal(await storage.deleteSlackInstallation(teamId), false);
+      assert.equal(await storage.getSlackInstallation(teamId), undefined);
+    });
+  });
+
+  describe("conversations", () => {
+    it("creates, updates and finds conversations by participant", async () => {
+      const participant = `slack:U${run}`;
+      const conversation = await storage.createConversation({
+        title: "Chat",
+        participants: ["Einstein", participant],
+        topic: "Physics",
+        transcript: "Hello",
+      });
+      assert.deepEqual(conversation.metadata, {});
+
+      const updated = await storage.updateConversation(conversation.id, { transcript: "Hello\n\nHi", metadata: { exchanges: 2 } });
+      assert.equal(updated?.transcript, "Hello\n\nHi");
+      assert.deepEqual(updated?.metadata, { exchanges: 2 });
+      assert.equal(updated?.createdAt.getTime(), conversation.createdAt.getTime());
+
+      const found = await storage.getConversationsByParticipant(participant);
+      assert.deepEqual(found.map((entry) => entry.id), [conversation.id]);
+      assert.equal(await storage.updateConversation(-1, { title: "Missing" }), undefined);
+    });
+  });
+}
+
+describe("MemStorage", () => {
+  storageContract(() => new MemStorage());
+});
+
+// Needs a disposable Postgres database in DATABASE_URL; the suite leaves its rows behind
+describe("DatabaseStorage", { skip: !process.env.DATABASE_URL && "DATABASE_URL not set" }, () => {
+  before(async () => {
+    await initializeTables();
+  });
+
+  storageContract(() => new DatabaseStorage());
+
+  after(async () => {
+    // Let the process exit instead of waiting on idle connections
+    await client.end({ timeout: 5 });
+  });
+});
@@ -1,8 +1,15 @@
-import { agents, tasks, digitalTwins, type Agent, type InsertAgent, type Task, type InsertTask, type DigitalTwin, type InsertDigitalTwin } from "./schema.js";
+import { agents, tasks, digitalTwins, type Agent, type InsertAgent, type Task, type InsertTask, type DigitalTwin, type InsertDigitalTwin, type TaskFilter } from "./schema.js";
 import { db } from "./db.js";
-import { eq, sql } from "drizzle-orm";
+import { and, desc, eq, gte, lte, sql, type SQL } from "drizzle-orm";
 import { conversations, type Conversation, type InsertConversation } from "./schema.js";
+import { twinRevisions, type TwinRevision, type InsertTwinRevision } from "./schema.js";
+import { twinDocuments, type TwinDocument, type InsertTwinDocument } from "./schema.js";
+import { twinQaPairs, type TwinQaPair, type InsertTwinQaPair } from "./schema.js";
+import { slackSessions, type SlackSession, type InsertSlackSession } from "./schema.js";
+import { slackChannelSettings, type SlackChannelSettings, type InsertSlackChannelSettings } from "./schema.js";
+import { slackInstallations, type SlackInstallation, type InsertSlackInstallation } from "./schema.js";
 import { insertAgentSchema, insertTaskSchema, insertDigitalTwinSchema, insertConversationSchema } from "./schema.js";
+import { SEED_PERSONAS, agentFromPersona } from "./persona-registry.js";
 
 export interface IStorage {
   // Agent operations
@@ -11,25 +18,65 @@ export interface IStorage {
   createAgent(agent: InsertAgent): Promise<Agent>;
   updateAgentStatus(id: number, status: string): Promise<Agent | undefined>;
   updateAgentMetrics(id: number, metrics: any): Promise<Agent | undefined>;
+  cleanupDuplicateAgents(): Promise<number>;
 
   // Task operations
-  getTasks(): Promise<Task[]>;
+  getTasks(filter?: TaskFilter): Promise<Task[]>;
   getTask(id: number): Promise<Task | undefined>;
   createTask(task: InsertTask): Promise<Task>;
+  // With expectedStatus the update only applies if the task is still in that status
+  updateTask(id: number, updates: Partial<InsertTask>, expectedStatus?: string): Promise<Task | undefined>;
   updateTaskStatus(id: number, status: string): Promise<Task | undefined>;
+  deleteTask(id: number): Promise<boolean>;
   getTasksByAgent(agentId: number): Promise<Task[]>;
 
   // Digital Twin operations
   getDigitalTwins(): Promise<DigitalTwin[]>;
   getDigitalTwin(id: number): Promise<DigitalTwin | undefined>;
   createDigitalTwin(twin: InsertDigitalTwin): Promise<DigitalTwin>;
-  updateDigitalTwin(id: number, updates: Partial<InsertDigitalTwin>): Promise<DigitalTwin | undefined>;
+  // With expectedUpdatedAt the update only applies if the row was not changed since
+  updateDigitalTwin(id: number, updates: Partial<InsertDigitalTwin>, expectedUpdatedAt?: Date): Promise<DigitalTwin | undefined>;
   deleteDigitalTwin(id: number): Promise<boolean>;
 
+  // Twin revision operations (append-only, newest first)
+  getTwinRevisions(twinId: number): Promise<TwinRevision[]>;
+  getTwinRevision(twinId: number, revision: number): Promise<TwinRevision | undefined>;
+  // Returns undefined if the twin already has a revision with that number
+  createTwinRevision(revision: InsertTwinRevision): Promise<TwinRevision | undefined>;
+
+  // Twin document operations (oldest first)
+  getTwinDocuments(twinId: number): Promise<TwinDocument[]>;
+  createTwinDocument(document: InsertTwinDocument): Promise<TwinDocument>;
+  deleteTwinDocument(twinId: number, documentId: number): Promise<boolean>;
+
+  // Twin Q&A pair operations
+  getTwinQaPairs(twinId: number): Promise<TwinQaPair[]>;
+  createTwinQaPair(pair: InsertTwinQaPair): Promise<TwinQaPair>;
+  updateTwinQaPair(twinId: number, pairId: number, updates: Partial<InsertTwinQaPair>): Promise<TwinQaPair | undefined>;
+  deleteTwinQaPair(twinId: number, pairId: number): Promise<boolean>;
+
+  // Slack session operations, keyed by session key
+  getSlackSession(sessionKey: string): Promise<SlackSession | undefined>;
+  saveSlackSession(session: InsertSlackSession): Promise<SlackSession>;
+  deleteSlackSession(sessionKey: string): Promise<boolean>;
+  deleteExpiredSlackSessions(now: Date): Promise<number>;
+  // Most recently active first
+  getSlackSessionsByUser(teamId: string, userId: string): Promise<SlackSession[]>;
+
+  // Slack channel settings
+  getSlackChannelSettings(teamId: string, channelId: string): Promise<SlackChannelSettings | undefined>;
+  saveSlackChannelSettings(settings: InsertSlackChannelSettings): Promise<SlackChannelSettings>;
+
+  // Slack workspace installations, one per team
+  getSlackInstallation(teamId: string): Promise<SlackInstallation | undefined>;
+  saveSlackInstallation(installation: InsertSlackInstallation): Promise<SlackInstallation>;
+  deleteSlackInstallation(teamId: string): Promise<boolean>;
+
   // Conversation operations
   getConversations(): Promise<Conversation[]>;
   getConversation(id: number): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation | undefined>;
   getConversationsByParticipant(participant: string): Promise<Conversation[]>;
 }
 
@@ -41,26 +88,7 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('DB error in getAgents, returning fallback agents:', error);
       // Fallback agents to keep the app working if the DB is unreachable
-      const fallback: Agent[] = [
-        {
-          id: 1,
-          name: "Albert Einstein",
-          status: "active",
-          type: "Theoretical Physics",
-          capabilities: ["Innovation", "Research", "Problem Solving"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Einstein",
-          metrics: { requests_handled: 0, success_rate: 0, avg_response_time: 0 }
-        },
-        {
-          id: 2,
-          name: "Elon Musk",
-          status: "active",
-          type: "Tech Entrepreneur",
-          capabilities: ["Innovation", "Strategic Thinking", "Product Development"],
-          avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=Musk",
-          metrics: { requests_handled: 0, success_rate: 0, avg_response_time: 0 }
-        }
-      ] as unknown as Agent[];
+      const fallback = SEED_PERSONAS.map((persona, i) => agentFromPersona(persona, i + 1));
       return fallback;
     }
   }
@@ -70,61 +98,44 @@ export class DatabaseStorage implements IStorage {
     return agent;
   }
 
-  async createAgent(agent: any): Promise<Agent> {
-    console.log('createAgent called with:', JSON.stringify(agent, null, 2));
-    
-    // Temporary mock implementation to get build working
-    const mockAgent = {
-      id: Math.floor(Math.random() * 1000),
-      name: agent?.name || 'Unknown',
-      type: agent?.type || 'Unknown',
-      capabilities: agent?.capabilities || [],
-      avatar: agent?.avatar || '',
-      status: agent?.status || 'idle',
-      metrics: { requests_handled: 0, success_rate: 0, avg_response_time: 0 }
-    };
-    
-    console.log('Returning mock agent:', mockAgent);
-    return mockAgent as Agent;
-  }
-
-  async updateAgentStatus(id: number, status: string): Promise<Agent> {
-    console.log(`updateAgentStatus called with id: ${id}, status: ${status}`);
-    
-    // Temporary mock implementation
-    const mockAgent = {
-      id,
-      name: 'Mock Agent',
-      type: 'Unknown',
-      capabilities: [],
-      avatar: '',
-      status,
-      metrics: { requests_handled: 0, success_rate: 0, avg_response_time: 0 }
-    };
-    
-    return mockAgent as Agent;
-  }
-
-  async updateAgentMetrics(id: number, metrics: any): Promise<Agent> {
-    console.log(`updateAgentMetrics called with id: ${id}, metrics:`, JSON.stringify(metrics, null, 2));
-    
-    // Temporary mock implementation
-    const mockAgent = {
-      id,
-      name: 'Mock Agent',
-      type: 'Unknown',
-      capabilities: [],
-      avatar: '',
-      status: 'idle',
-      metrics
-    };
-    
-    return mockAgent as Agent;
+  async createAgent(agent: InsertAgent): Promise<Agent> {
+    const [created] = await db.insert(agents).values(agent).returning();
+    return created;
+  }
+
+  async updateAgentStatus(id: number, status: string): Promise<Agent | undefined> {
+    const [updated] = await db
+      .update(agents)
+      .set({ status })
+      .where(eq(agents.id, id))
+      .returning();
+    return updated;
+  }
+
+  async updateAgentMetrics(id: number, metrics: any): Promise<Agent | undefined> {
+    const [updated] = await db
+      .update(agents)
+      .set({ metrics })
+      .where(eq(agents.id, id))
+      .returning();
+    return updated;
   }
 
   // Task operations
-  async getTasks(): Promise<Task[]> {
-    return await db.select().from(tasks);
+  async getTasks(filter: TaskFilter = {}): Promise<Task[]> {
+    const conditions: SQL[] = [];
+    if (filter.status) conditions.push(eq(tasks.status, filter.status));
+    if (filter.priority) conditions.push(eq(tasks.priority, filter.priority));
+    if (filter.assignedAgentId !== undefined) conditions.push(eq(tasks.assignedAgentId, filter.assignedAgentId));
+    if (filter.assignedTwinId !== undefined) conditions.push(eq(tasks.assignedTwinId, filter.assignedTwinId));
+    if (filter.dueAfter) conditions.push(gte(tasks.dueDate, filter.dueAfter));
+    if (filter.dueBefore) conditions.push(lte(tasks.dueDate, filter.dueBefore));
+
+    return await db
+      .select()
+      .from(tasks)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(tasks.id);
   }
 
   async getTask(id: number): Promise<Task | undefined> {
@@ -132,46 +143,38 @@ export class DatabaseStorage implements IStorage {
     return task;
   }
 
-  async createTask(task: any): Promise<Task> {
-    console.log('createTask called with:', JSON.stringify(task, null, 2));
-    
-    // Temporary mock implementation
-    const mockTask = {
-      id: Math.floor(Math.random() * 1000),
-      title: task?.title || 'Unknown Task',
-      description: task?.description || '',
-      status: task?.status || 'pending',
-      priority: task?.priority || 'medium',
-      dueDate: task?.dueDate || null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      assignedAgentId: null,
-      assignedTwinId: null,
-      metadata: {}
-    };
-    
-    return mockTask as Task;
-  }
-
-  async updateTaskStatus(id: number, status: string): Promise<Task> {
-    console.log(`updateTaskStatus called with id: ${id}, status: ${status}`);
-    
-    // Temporary mock implementation
-    const mockTask = {
-      id,
-      title: 'Mock Task',
-      description: '',
-      status,
-      priority: 'medium',
-      dueDate: null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      assignedAgentId: null,
-      assignedTwinId: null,
-      metadata: {}
-    };
-    
-    return mockTask as Task;
+  async createTask(task: InsertTask): Promise<Task> {
+    const [created] = await db.insert(tasks).values(task).returning();
+    return created;
+  }
+
+  async updateTask(id: number, updates: Partial<InsertTask>, expectedStatus?: string): Promise<Task | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const conditions: SQL[] = [eq(tasks.id, id)];
+    if (expectedStatus) conditions.push(eq(tasks.status, expectedStatus));
+    const [updated] = await db
+      .update(tasks)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return updated;
+  }
+
+  async updateTaskStatus(id: number, status: string): Promise<Task | undefined> {
+    const [updated] = await db
+      .update(tasks)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(tasks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTask(id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(tasks)
+      .where(eq(tasks.id, id))
+      .returning();
+    return !!deleted;
   }
 
   async getTasksByAgent(agentId: number): Promise<Task[]> {
@@ -191,66 +194,27 @@ export class DatabaseStorage implements IStorage {
     return twin;
   }
 
-  async createDigitalTwin(twin: any): Promise<DigitalTwin> {
-    console.log('createDigitalTwin called with:', JSON.stringify(twin, null, 2));
-    
-    // Temporary mock implementation
-    const mockTwin = {
-      id: Math.floor(Math.random() * 1000),
-      name: twin?.name || 'Unknown Twin',
-      description: twin?.description || '',
-      type: twin?.type || 'Unknown',
-      status: twin?.status || 'active',
-      avatar: twin?.avatar || '',
-      capabilities: twin?.capabilities || [],
-      metadata: {},
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      configuration: {
-        personality: "friendly",
-        voice_id: "21m00Tcm4TlvDq8ikWAM",
-        voice_settings: {
-          stability: 0.75,
-          similarityBoost: 0.75,
-          style: 0.5,
-          speakerBoost: true
-        }
-      }
-    };
-    
-    return mockTwin as DigitalTwin;
-  }
-
-  async updateDigitalTwin(id: number, updates: any): Promise<DigitalTwin> {
-    console.log(`updateDigitalTwin called with id: ${id}, updates:`, JSON.stringify(updates, null, 2));
-    
-    // Temporary mock implementation
-    const mockTwin = {
-      id,
-      name: updates?.name || 'Mock Twin',
-      description: updates?.description || '',
-      type: updates?.type || 'Unknown',
-      status: updates?.status || 'active',
-      avatar: updates?.avatar || '',
-      capabilities: updates?.capabilities || [],
-      metadata: {},
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      configuration: {
-        personality: "friendly",
-        voice_id: "21m00Tcm4TlvDq8ikWAM",
-        voice_settings: {
-          stability: 0.75,
-          similarityBoost: 0.75,
-          style: 0.5,
-          speakerBoost: true
-        }
-      }
-    };
-    
-    return mockTwin as DigitalTwin;
+  async createDigitalTwin(twin: InsertDigitalTwin): Promise<DigitalTwin> {
+    const [created] = await db.insert(digitalTwins).values(twin).returning();
+    return created;
   }
-  
+
+  async updateDigitalTwin(id: number, updates: Partial<InsertDigitalTwin>, expectedUpdatedAt?: Date): Promise<DigitalTwin | undefined> {
+    // Never let callers rewrite identity or creation time
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const conditions: SQL[] = [eq(digitalTwins.id, id)];
+    if (expectedUpdatedAt) {
+      // Dates round-trip through JS with millisecond precision
+      conditions.push(sql`date_trunc('milliseconds', ${digitalTwins.updatedAt}) = ${expectedUpdatedAt.toISOString()}`);
+    }
+    const [updated] = await db
+      .update(digitalTwins)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return updated;
+  }
+
   // Clean up duplicate agents (keeping the one with the lowest ID)
   async cleanupDuplicateAgents(): Promise<number> {
     try {
@@ -302,6 +266,169 @@ export class DatabaseStorage implements IStorage {
     return !!deleted;
   }
 
+  // Twin revision operations
+  async getTwinRevisions(twinId: number): Promise<TwinRevision[]> {
+    return await db
+      .select()
+      .from(twinRevisions)
+      .where(eq(twinRevisions.twinId, twinId))
+      .orderBy(desc(twinRevisions.revision));
+  }
+
+  async getTwinRevision(twinId: number, revision: number): Promise<TwinRevision | undefined> {
+    const [found] = await db
+      .select()
+      .from(twinRevisions)
+      .where(and(eq(twinRevisions.twinId, twinId), eq(twinRevisions.revision, revision)));
+    return found;
+  }
+
+  async createTwinRevision(revision: InsertTwinRevision): Promise<TwinRevision | undefined> {
+    const [created] = await db
+      .insert(twinRevisions)
+      .values(revision)
+      .onConflictDoNothing({ target: [twinRevisions.twinId, twinRevisions.revision] })
+      .returning();
+    return created;
+  }
+
+  // Twin document operations
+  async getTwinDocuments(twinId: number): Promise<TwinDocument[]> {
+    return await db
+      .select()
+      .from(twinDocuments)
+      .where(eq(twinDocuments.twinId, twinId))
+      .orderBy(twinDocuments.createdAt, twinDocuments.id);
+  }
+
+  async createTwinDocument(document: InsertTwinDocument): Promise<TwinDocument> {
+    const [created] = await db.insert(twinDocuments).values(document).returning();
+    return created;
+  }
+
+  async deleteTwinDocument(twinId: number, documentId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(twinDocuments)
+      .where(and(eq(twinDocuments.twinId, twinId), eq(twinDocuments.id, documentId)))
+      .returning({ id: twinDocuments.id });
+    return deleted.length > 0;
+  }
+
+  // Twin Q&A pair operations
+  async getTwinQaPairs(twinId: number): Promise<TwinQaPair[]> {
+    return await db.select().from(twinQaPairs).where(eq(twinQaPairs.twinId, twinId)).orderBy(twinQaPairs.id);
+  }
+
+  async createTwinQaPair(pair: InsertTwinQaPair): Promise<TwinQaPair> {
+    const [created] = await db.insert(twinQaPairs).values(pair).returning();
+    return created;
+  }
+
+  async updateTwinQaPair(twinId: number, pairId: number, updates: Partial<InsertTwinQaPair>): Promise<TwinQaPair | undefined> {
+    // A pair stays with the twin it was created for
+    const { id: _id, twinId: _twinId, createdAt: _createdAt, ...changes } = updates;
+    const [updated] = await db
+      .update(twinQaPairs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(twinQaPairs.twinId, twinId), eq(twinQaPairs.id, pairId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteTwinQaPair(twinId: number, pairId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(twinQaPairs)
+      .where(and(eq(twinQaPairs.twinId, twinId), eq(twinQaPairs.id, pairId)))
+      .returning({ id: twinQaPairs.id });
+    return deleted.length > 0;
+  }
+
+  // Slack session operations
+  async getSlackSession(sessionKey: string): Promise<SlackSession | undefined> {
+    const [session] = await db.select().from(slackSessions).where(eq(slackSessions.sessionKey, sessionKey));
+    return session;
+  }
+
+  async saveSlackSession(session: InsertSlackSession): Promise<SlackSession> {
+    const { id: _id, createdAt: _createdAt, ...changes } = session;
+    const [saved] = await db
+      .insert(slackSessions)
+      .values(session)
+      .onConflictDoUpdate({ target: slackSessions.sessionKey, set: changes })
+      .returning();
+    return saved;
+  }
+
+  async deleteSlackSession(sessionKey: string): Promise<boolean> {
+    const deleted = await db
+      .delete(slackSessions)
+      .where(eq(slackSessions.sessionKey, sessionKey))
+      .returning({ id: slackSessions.id });
+    return deleted.length > 0;
+  }
+
+  async deleteExpiredSlackSessions(now: Date): Promise<number> {
+    const deleted = await db
+      .delete(slackSessions)
+      .where(lte(slackSessions.expiresAt, now))
+      .returning({ id: slackSessions.id });
+    return deleted.length;
+  }
+
+  async getSlackSessionsByUser(teamId: string, userId: string): Promise<SlackSession[]> {
+    return await db
+      .select()
+      .from(slackSessions)
+      .where(and(eq(slackSessions.teamId, teamId), eq(slackSessions.userId, userId), gte(slackSessions.expiresAt, new Date())))
+      .orderBy(desc(slackSessions.lastActivity));
+  }
+
+  // Slack channel settings
+  async getSlackChannelSettings(teamId: string, channelId: string): Promise<SlackChannelSettings | undefined> {
+    const [settings] = await db
+      .select()
+      .from(slackChannelSettings)
+      .where(and(eq(slackChannelSettings.teamId, teamId), eq(slackChannelSettings.channelId, channelId)));
+    return settings;
+  }
+
+  async saveSlackChannelSettings(settings: InsertSlackChannelSettings): Promise<SlackChannelSettings> {
+    const { id: _id, ...changes } = settings;
+    const [saved] = await db
+      .insert(slackChannelSettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: [slackChannelSettings.teamId, slackChannelSettings.channelId],
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Slack workspace installations
+  async getSlackInstallation(teamId: string): Promise<SlackInstallation | undefined> {
+    const [installation] = await db.select().from(slackInstallations).where(eq(slackInstallations.teamId, teamId));
+    return installation;
+  }
+
+  async saveSlackInstallation(installation: InsertSlackInstallation): Promise<SlackInstallation> {
+    const { id: _id, installedAt: _installedAt, ...changes } = installation;
+    const [saved] = await db
+      .insert(slackInstallations)
+      .values(installation)
+      .onConflictDoUpdate({
+        target: slackInstallations.teamId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteSlackInstallation(teamId: string): Promise<boolean> {
+    const deleted = await db.delete(slackInstallations).where(eq(slackInstallations.teamId, teamId)).returning();
+    return deleted.length > 0;
+  }
+
   // Conversation operations
   async getConversations(): Promise<Conversation[]> {
     return await db.select().from(conversations);
@@ -312,22 +439,19 @@ export class DatabaseStorage implements IStorage {
     return conversation;
   }
 
-  async createConversation(conversation: any): Promise<Conversation> {
-    console.log('createConversation called with:', JSON.stringify(conversation, null, 2));
-    
-    // Temporary mock implementation
-    const mockConversation = {
-      id: Math.floor(Math.random() * 1000),
-      title: conversation?.title || 'Unknown Conversation',
-      participants: conversation?.participants || [],
-      topic: conversation?.topic || '',
-      transcript: conversation?.transcript || '',
-      metadata: {},
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    
-    return mockConversation as Conversation;
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const [created] = await db.insert(conversations).values(conversation).returning();
+    return created;
+  }
+
+  async updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [updated] = await db
+      .update(conversations)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updated;
   }
 
   async getConversationsByParticipant(participant: string): Promise<Conversation[]> {
@@ -338,4 +462,408 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// In-memory implementation of the same contract, used when no database is
+// configured (local development and tests). Data lives for the process only.
+export class MemStorage implements IStorage {
+  private agents = new Map<number, Agent>();
+  private tasks = new Map<number, Task>();
+  private digitalTwins = new Map<number, DigitalTwin>();
+  private conversations = new Map<number, Conversation>();
+  private twinRevisions = new Map<number, TwinRevision[]>();
+  private twinDocuments = new Map<number, TwinDocument>();
+  private twinQaPairs = new Map<number, TwinQaPair>();
+  private slackSessions = new Map<string, SlackSession>();
+  private slackChannelSettings = new Map<string, SlackChannelSettings>();
+  private slackInstallations = new Map<string, SlackInstallation>();
+  private nextIds = { agent: 1, task: 1, twin: 1, conversation: 1, revision: 1, document: 1, qaPair: 1, slackSession: 1, slackChannel: 1, slackInstallation: 1 };
+
+  // Agent operations
+  async getAgents(): Promise<Agent[]> {
+    return Array.from(this.agents.values());
+  }
+
+  async getAgent(id: number): Promise<Agent | undefined> {
+    return this.agents.get(id);
+  }
+
+  async createAgent(agent: InsertAgent): Promise<Agent> {
+    const created: Agent = {
+      status: "idle",
+      metrics: { requests_handled: 0, success_rate: 0, avg_response_time: 0 },
+      ...agent,
+      id: this.nextIds.agent++,
+    };
+    this.agents.set(created.id, created);
+    return created;
+  }
+
+  async updateAgentStatus(id: number, status: string): Promise<Agent | undefined> {
+    const agent = this.agents.get(id);
+    if (!agent) return undefined;
+    const updated = { ...agent, status };
+    this.agents.set(id, updated);
+    return updated;
+  }
+
+  async updateAgentMetrics(id: number, metrics: any): Promise<Agent | undefined> {
+    const agent = this.agents.get(id);
+    if (!agent) return undefined;
+    const updated = { ...agent, metrics };
+    this.agents.set(id, updated);
+    return updated;
+  }
+
+  async cleanupDuplicateAgents(): Promise<number> {
+    const seen = new Set<string>();
+    let duplicatesRemoved = 0;
+    const byId = Array.from(this.agents.values()).sort((a, b) => a.id - b.id);
+    for (const agent of byId) {
+      if (seen.has(agent.name)) {
+        this.agents.delete(agent.id);
+        duplicatesRemoved++;
+      } else {
+        seen.add(agent.name);
+      }
+    }
+    return duplicatesRemoved;
+  }
+
+  // Task operations
+  async getTasks(filter: TaskFilter = {}): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter((task) => {
+      if (filter.status && task.status !== filter.status) return false;
+      if (filter.priority && task.priority !== filter.priority) return false;
+      if (filter.assignedAgentId !== undefined && task.assignedAgentId !== filter.assignedAgentId) return false;
+      if (filter.assignedTwinId !== undefined && task.assignedTwinId !== filter.assignedTwinId) return false;
+      if (filter.dueAfter && (!task.dueDate || task.dueDate < filter.dueAfter)) return false;
+      if (filter.dueBefore && (!task.dueDate || task.dueDate > filter.dueBefore)) return false;
+      return true;
+    });
+  }
+
+  async getTask(id: number): Promise<Task | undefined> {
+    return this.tasks.get(id);
+  }
+
+  async createTask(task: InsertTask): Promise<Task> {
+    const now = new Date();
+    const created: Task = {
+      description: null,
+      status: "pending",
+      priority: "medium",
+      dueDate: null,
+      assignedAgentId: null,
+      assignedTwinId: null,
+      metadata: {},
+      ...task,
+      id: this.nextIds.task++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tasks.set(created.id, created);
+    return created;
+  }
+
+  async updateTask(id: number, updates: Partial<InsertTask>, expectedStatus?: string): Promise<Task | undefined> {
+    const task = this.tasks.get(id);
+    if (!task) return undefined;
+    if (expectedStatus && task.status !== expectedStatus) return undefined;
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const updated = { ...task, ...changes, updatedAt: new Date() };
+    this.tasks.set(id, updated);
+    return updated;
+  }
+
+  async updateTaskStatus(id: number, status: string): Promise<Task | undefined> {
+    const task = this.tasks.get(id);
+    if (!task) return undefined;
+    const updated = { ...task, status, updatedAt: new Date() };
+    this.tasks.set(id, updated);
+    return updated;
+  }
+
+  async deleteTask(id: number): Promise<boolean> {
+    return this.tasks.delete(id);
+  }
+
+  async getTasksByAgent(agentId: number): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter((task) => task.assignedAgentId === agentId);
+  }
+
+  // Digital Twin operations
+  async getDigitalTwins(): Promise<DigitalTwin[]> {
+    return Array.from(this.digitalTwins.values());
+  }
+
+  async getDigitalTwin(id: number): Promise<DigitalTwin | undefined> {
+    return this.digitalTwins.get(id);
+  }
+
+  async createDigitalTwin(twin: InsertDigitalTwin): Promise<DigitalTwin> {
+    const now = new Date();
+    const created: DigitalTwin = {
+      description: null,
+      status: "active",
+      metadata: {},
+      configuration: {
+        personality: "friendly",
+        voice_id: "21m00Tcm4TlvDq8ikWAM",
+        voice_settings: {
+          stability: 0.75,
+          similarityBoost: 0.75,
+          style: 0.5,
+          speakerBoost: true
+        }
+      },
+      ...twin,
+      id: this.nextIds.twin++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.digitalTwins.set(created.id, created);
+    return created;
+  }
+
+  async updateDigitalTwin(id: number, updates: Partial<InsertDigitalTwin>, expectedUpdatedAt?: Date): Promise<DigitalTwin | undefined> {
+    const twin = this.digitalTwins.get(id);
+    if (!twin) return undefined;
+    if (expectedUpdatedAt && twin.updatedAt.getTime() !== expectedUpdatedAt.getTime()) return undefined;
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const updated = { ...twin, ...changes, updatedAt: new Date() };
+    this.digitalTwins.set(id, updated);
+    return updated;
+  }
+
+  async deleteDigitalTwin(id: number): Promise<boolean> {
+    const deleted = this.digitalTwins.delete(id);
+    if (deleted) {
+      this.twinRevisions.delete(id);
+      this.twinDocuments.forEach((document, documentId) => {
+        if (document.twinId === id) this.twinDocuments.delete(documentId);
+      });
+      this.twinQaPairs.forEach((pair, pairId) => {
+        if (pair.twinId === id) this.twinQaPairs.delete(pairId);
+      });
+    }
+    return deleted;
+  }
+
+  // Twin revision operations
+  async getTwinRevisions(twinId: number): Promise<TwinRevision[]> {
+    return [...(this.twinRevisions.get(twinId) || [])].sort((a, b) => b.revision - a.revision);
+  }
+
+  async getTwinRevision(twinId: number, revision: number): Promise<TwinRevision | undefined> {
+    return (this.twinRevisions.get(twinId) || []).find((entry) => entry.revision === revision);
+  }
+
+  async createTwinRevision(revision: InsertTwinRevision): Promise<TwinRevision | undefined> {
+    const history = this.twinRevisions.get(revision.twinId) || [];
+    if (history.some((entry) => entry.revision === revision.revision)) return undefined;
+
+    const created: TwinRevision = {
+      changedBy: "system",
+      note: null,
+      diff: [],
+      ...revision,
+      id: this.nextIds.revision++,
+      createdAt: new Date(),
+    };
+    history.push(created);
+    this.twinRevisions.set(created.twinId, history);
+    return created;
+  }
+
+  // Twin document operations
+  async getTwinDocuments(twinId: number): Promise<TwinDocument[]> {
+    return Array.from(this.twinDocuments.values()).filter((document) => document.twinId === twinId);
+  }
+
+  async createTwinDocument(document: InsertTwinDocument): Promise<TwinDocument> {
+    const created: TwinDocument = {
+      addedBy: "upload",
+      ...document,
+      id: this.nextIds.document++,
+      createdAt: new Date(),
+    };
+    this.twinDocuments.set(created.id, created);
+    return created;
+  }
+
+  async deleteTwinDocument(twinId: number, documentId: number): Promise<boolean> {
+    const document = this.twinDocuments.get(documentId);
+    if (!document || document.twinId !== twinId) return false;
+    this.twinQaPairs.forEach((pair, pairId) => {
+      if (pair.documentId === documentId) this.twinQaPairs.delete(pairId);
+    });
+    return this.twinDocuments.delete(documentId);
+  }
+
+  // Twin Q&A pair operations
+  async getTwinQaPairs(twinId: number): Promise<TwinQaPair[]> {
+    return Array.from(this.twinQaPairs.values()).filter((pair) => pair.twinId === twinId);
+  }
+
+  async createTwinQaPair(pair: InsertTwinQaPair): Promise<TwinQaPair> {
+    const now = new Date();
+    const created: TwinQaPair = {
+      documentId: null,
+      ...pair,
+      id: this.nextIds.qaPair++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.twinQaPairs.set(created.id, created);
+    return created;
+  }
+
+  async updateTwinQaPair(twinId: number, pairId: number, updates: Partial<InsertTwinQaPair>): Promise<TwinQaPair | undefined> {
+    const pair = this.twinQaPairs.get(pairId);
+    if (!pair || pair.twinId !== twinId) return undefined;
+    const { id: _id, twinId: _twinId, createdAt: _createdAt, ...changes } = updates;
+    const updated = { ...pair, ...changes, updatedAt: new Date() };
+    this.twinQaPairs.set(pairId, updated);
+    return updated;
+  }
+
+  async deleteTwinQaPair(twinId: number, pairId: number): Promise<boolean> {
+    const pair = this.twinQaPairs.get(pairId);
+    if (!pair || pair.twinId !== twinId) return false;
+    return this.twinQaPairs.delete(pairId);
+  }
+
+  // Slack session operations
+  async getSlackSession(sessionKey: string): Promise<SlackSession | undefined> {
+    return this.slackSessions.get(sessionKey);
+  }
+
+  async saveSlackSession(session: InsertSlackSession): Promise<SlackSession> {
+    const existing = this.slackSessions.get(session.sessionKey);
+    const saved: SlackSession = {
+      threadTs: null,
+      panelists: null,
+      selectedPersona: null,
+      history: [],
+      conversationId: null,
+      lastActivity: new Date(),
+      ...existing,
+      ...session,
+      id: existing?.id ?? this.nextIds.slackSession++,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.slackSessions.set(saved.sessionKey, saved);
+    return saved;
+  }
+
+  async deleteSlackSession(sessionKey: string): Promise<boolean> {
+    return this.slackSessions.delete(sessionKey);
+  }
+
+  async deleteExpiredSlackSessions(now: Date): Promise<number> {
+    let deleted = 0;
+    this.slackSessions.forEach((session, key) => {
+      if (session.expiresAt.getTime() <= now.getTime()) {
+        this.slackSessions.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async getSlackSessionsByUser(teamId: string, userId: string): Promise<SlackSession[]> {
+    const now = Date.now();
+    return Array.from(this.slackSessions.values())
+      .filter((session) => session.teamId === teamId && session.userId === userId && session.expiresAt.getTime() > now)
+      .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+  }
+
+  // Slack channel settings
+  async getSlackChannelSettings(teamId: string, channelId: string): Promise<SlackChannelSettings | undefined> {
+    return this.slackChannelSettings.get(`${teamId}:${channelId}`);
+  }
+
+  async saveSlackChannelSettings(settings: InsertSlackChannelSettings): Promise<SlackChannelSettings> {
+    const key = `${settings.teamId}:${settings.channelId}`;
+    const existing = this.slackChannelSettings.get(key);
+    const saved: SlackChannelSettings = {
+      defaultPersona: null,
+      updatedBy: null,
+      ...existing,
+      ...settings,
+      id: existing?.id ?? this.nextIds.slackChannel++,
+      updatedAt: new Date(),
+    };
+    this.slackChannelSettings.set(key, saved);
+    return saved;
+  }
+
+  // Slack workspace installations
+  async getSlackInstallation(teamId: string): Promise<SlackInstallation | undefined> {
+    return this.slackInstallations.get(teamId);
+  }
+
+  async saveSlackInstallation(installation: InsertSlackInstallation): Promise<SlackInstallation> {
+    const existing = this.slackInstallations.get(installation.teamId);
+    const now = new Date();
+    const saved: SlackInstallation = {
+      teamName: null,
+      enterpriseId: null,
+      appId: null,
+      botUserId: null,
+      scope: null,
+      installedBy: null,
+      ...existing,
+      ...installation,
+      id: existing?.id ?? this.nextIds.slackInstallation++,
+      installedAt: existing?.installedAt ?? now,
+      updatedAt: now,
+    };
+    this.slackInstallations.set(saved.teamId, saved);
+    return saved;
+  }
+
+  async deleteSlackInstallation(teamId: string): Promise<boolean> {
+    return this.slackInstallations.delete(teamId);
+  }
+
+  // Conversation operations
+  async getConversations(): Promise<Conversation[]> {
+    return Array.from(this.conversations.values());
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const now = new Date();
+    const created: Conversation = {
+      metadata: {},
+      ...conversation,
+      id: this.nextIds.conversation++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.conversations.set(created.id, created);
+    return created;
+  }
+
+  async updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const updated = { ...conversation, ...changes, updatedAt: new Date() };
+    this.conversations.set(id, updated);
+    return updated;
+  }
+
+  async getConversationsByParticipant(participant: string): Promise<Conversation[]> {
+    return Array.from(this.conversations.values()).filter((conversation) =>
+      conversation.participants.includes(participant)
+    );
+  }
+}
+
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage()
+  : new MemStorage();
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { conversationManager, type HistoryEntry } from "./conversation-manager.js";
+import { debateService } from "./debate-service.js";
+import { voiceService } from "./voice-service.js";
+import type { GenerateDebateOptions } from "./debate-generator.js";
+
+/**
+ * Incremental events sent to a WebSocket client while a chat reply or a
+ * debate is generated. Every event echoes the client's requestId so several
+ * streams can share one socket.
+ */
+export type StreamEvent =
+  | { type: "turn_started"; requestId?: string; index: number; speaker: string; kind?: string; round?: number }
+  | { type: "token"; requestId?: string; index: number; token: string }
+  | { type: "turn_completed"; requestId?: string; index: number; speaker: string; text: string }
+  | { type: "audio_ready"; requestId?: string; index: number; speaker: string; mimeType: string; audio: string }
+  | { type: "done"; requestId?: string; [key: string]: unknown }
+  | { type: "error"; requestId?: string; error: string };
+
+export type SendEvent = (event: StreamEvent) => void;
+
+export interface ChatStreamRequest {
+  requestId?: string;
+  persona: string;
+  message: string;
+  history?: HistoryEntry[];
+  includeAudio?: boolean;
+  conversationId?: number;
+}
+
+export interface DebateStreamRequest extends Omit<GenerateDebateOptions, "events"> {
+  requestId?: string;
+}
+
+function audioEvent(requestId: string | undefined, index: number, speaker: string, audio: Buffer): StreamEvent {
+  return {
+    type: "audio_ready",
+    requestId,
+    index,
+    speaker,
+    mimeType: "audio/mpeg",
+    audio: audio.toString("base64"),
+  };
+}
+
+export async function streamChat(request: ChatStreamRequest, send: SendEvent): Promise<void> {
+  const { requestId, persona, message, history = [], includeAudio = false, conversationId } = request;
+  try {
+    send({ type: "turn_started", requestId, index: 0, speaker: persona });
+    const text = await conversationManager.generateResponse(persona, message, history, {
+      onToken: (token) => send({ type: "token", requestId, index: 0, token }),
+      conversationId,
+    });
+    send({ type: "turn_completed", requestId, index: 0, speaker: persona, text });
+
+    if (includeAudio) {
+      const audio = await voiceService.synthesizeSpeech({ text, persona });
+      if (Buffer.isBuffer(audio)) {
+        send(audioEvent(requestId, 0, persona, audio));
+      }
+    }
+    send({ type: "done", requestId, text });
+  } catch (error: any) {
+    console.error("Streaming chat failed:", error);
+    send({ type: "error", requestId, error: error?.message || "Failed to generate response" });
+  }
+}
+
+export async function streamDebate(request: DebateStreamRequest, send: SendEvent): Promise<void> {
+  const { requestId, ...options } = request;
+  try {
+    const { conversation, debate } = await debateService.runDebate(
+      {
+        ...options,
+        events: {
+          onTurnStarted: (index, speaker, kind, round) =>
+            send({ type: "turn_started", requestId, index, speaker, kind, round }),
+          onToken: (index, token) => send({ type: "token", requestId, index, token }),
+          onTurnCompleted: (index, turn) =>
+            send({ type: "turn_completed", requestId, index, speaker: turn.speaker, text: turn.text }),
+          onAudioReady: (index, speaker, audio) => send(audioEvent(requestId, index, speaker, audio)),
+        },
+      },
+      "websocket"
+    );
+    send({
+      type: "done",
+      requestId,
+      debateId: conversation.id,
+      verdict: debate.verdict,
+      audioTimings: debate.audioTimings,
+    });
+  } catch (error: any) {
+    console.error("Streaming debate failed:", error);
+    send({ type: "error", requestId, error: error?.message || "Failed to generate debate" });
+  }
+}
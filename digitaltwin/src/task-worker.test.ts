@@ -0,0 +1,120 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage.js";
+import { TaskWorker } from "./task-worker.js";
+import { canTransitionTask } from "./schema.js";
+import type { ConversationManager } from "./conversation-manager.js";
+
+// Answers as the persona, or throws when the prompt asks it to
+function fakeConversations(prompts: string[] = []) {
+  return {
+    async generateResponse(persona: string, prompt: string) {
+      prompts.push(prompt);
+      if (prompt.includes("fail")) throw new Error("Provider unavailable");
+      return `${persona} says hi`;
+    },
+  } as unknown as ConversationManager;
+}
+
+describe("canTransitionTask", () => {
+  it("only moves tasks forward and keeps done and failed terminal", () => {
+    assert.equal(canTransitionTask("pending", "in_progress"), true);
+    assert.equal(canTransitionTask("in_progress", "done"), true);
+    assert.equal(canTransitionTask("in_progress", "failed"), true);
+    assert.equal(canTransitionTask("pending", "done"), false);
+    assert.equal(canTransitionTask("done", "pending"), false);
+    assert.equal(canTransitionTask("failed", "in_progress"), false);
+    assert.equal(canTransitionTask("done", "done"), true);
+    assert.equal(canTransitionTask("unknown", "done"), false);
+  });
+});
+
+describe("TaskWorker", () => {
+  let storage: MemStorage;
+  let prompts: string[];
+  let worker: TaskWorker;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    prompts = [];
+    worker = new TaskWorker(storage, fakeConversations(prompts));
+  });
+
+  async function createAgent(name = "Ada") {
+    return storage.createAgent({ name, type: "Tester", capabilities: [], avatar: "a.png" });
+  }
+
+  it("answers pending tasks most urgent first and records the result", async () => {
+    const agent = await createAgent();
+    const low = await storage.createTask({ title: "Later", priority: "low", assignedAgentId: agent.id });
+    const urgent = await storage.createTask({ title: "Now", description: "Right away", priority: "urgent", assignedAgentId: agent.id });
+    await storage.createTask({ title: "Nobody's" });
+
+    assert.equal(await worker.runOnce(), 2);
+    assert.deepEqual(prompts, ["Now\n\nRight away", "Later"]);
+
+    const done = await storage.getTask(urgent.id);
+    assert.equal(done?.status, "done");
+    assert.equal((done?.metadata as any).result, "Ada says hi");
+    assert.equal((await storage.getTask(low.id))?.status, "done");
+
+    const after = await storage.getAgent(agent.id);
+    assert.equal(after?.status, "idle");
+    assert.equal((after?.metrics as any).requests_handled, 2);
+    assert.equal((after?.metrics as any).success_rate, 100);
+  });
+
+  it("fails a task whose answer throws and counts it against the agent", async () => {
+    const agent = await createAgent();
+    await storage.createTask({ title: "Works", assignedAgentId: agent.id });
+    const broken = await storage.createTask({ title: "Please fail", assignedAgentId: agent.id });
+
+    await worker.runOnce();
+    const failed = await storage.getTask(broken.id);
+    assert.equal(failed?.status, "failed");
+    assert.equal((failed?.metadata as any).error, "Provider unavailable");
+    assert.equal(((await storage.getAgent(agent.id))?.metrics as any).success_rate, 50);
+  });
+
+  it("fails a task whose assignee no longer exists", async () => {
+    const task = await storage.createTask({ title: "Orphan", assignedAgentId: 999 });
+    const result = await worker.processTask(task);
+    assert.equal(result?.status, "failed");
+    assert.deepEqual(prompts, []);
+  });
+
+  it("skips a task someone else claimed first", async () => {
+    const agent = await createAgent();
+    const task = await storage.createTask({ title: "Contested", assignedAgentId: agent.id });
+    await storage.updateTask(task.id, { status: "in_progress" }, "pending");
+
+    assert.equal(await worker.processTask(task), undefined);
+    assert.deepEqual(prompts, []);
+  });
+
+  it("fails tasks interrupted by a restart and frees their agents", async () => {
+    const agent = await createAgent();
+    const running = await storage.createTask({ title: "Was running", assignedAgentId: agent.id });
+    await storage.updateTask(running.id, { status: "in_progress" }, "pending");
+    const pending = await storage.createTask({ title: "Still waiting", assignedAgentId: agent.id });
+    await storage.updateAgentStatus(agent.id, "busy");
+
+    const updates: string[] = [];
+    worker.on("task_updated", (task) => updates.push(`${task.id}:${task.status}`));
+    assert.equal(await worker.failInterruptedTasks(), 1);
+
+    const failed = await storage.getTask(running.id);
+    assert.equal(failed?.status, "failed");
+    assert.equal((failed?.metadata as any).error, "Interrupted by a server restart");
+    assert.deepEqual(updates, [`${running.id}:failed`]);
+    assert.equal((await storage.getTask(pending.id))?.status, "pending");
+
+    const freed = await storage.getAgent(agent.id);
+    assert.equal(freed?.status, "idle");
+    assert.equal((freed?.metrics as any).requests_handled, 1);
+
+    // The pending task still runs once the worker starts
+    assert.equal(await worker.runOnce(), 1);
+    assert.equal((await storage.getTask(pending.id))?.status, "done");
+  });
+});
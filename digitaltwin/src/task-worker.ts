@@ -0,0 +1,223 @@
+import { EventEmitter } from "events";
+import { storage as defaultStorage, type IStorage } from "./storage.js";
+import { conversationManager as defaultConversationManager, type ConversationManager } from "./conversation-manager.js";
+import { canTransitionTask, type Agent, type AgentMetrics, type Task } from "./schema.js";
+
+const PRIORITY_ORDER: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+export interface TaskWorkerOptions {
+  pollIntervalMs?: number;
+}
+
+/**
+ * Picks up pending tasks assigned to an agent or twin, answers them through
+ * the persona response pipeline and records the outcome on the task.
+ * Agent status and metrics are derived from those outcomes.
+ *
+ * Emits "task_updated" (Task) and "agent_updated" (Agent).
+ */
+export class TaskWorker extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private pollIntervalMs: number;
+
+  constructor(
+    private storage: IStorage = defaultStorage,
+    private conversations: ConversationManager = defaultConversationManager,
+    options: TaskWorkerOptions = {}
+  ) {
+    super();
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+  }
+
+  start() {
+    if (this.timer) return;
+    console.log(`[TaskWorker] Polling for pending tasks every ${this.pollIntervalMs}ms`);
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => console.error("[TaskWorker] Poll failed:", error));
+    }, this.pollIntervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fail tasks left "in_progress" by a previous process and free the agents
+   * they kept busy; their run died with that process and nothing will ever
+   * finish them. Call before start().
+   */
+  async failInterruptedTasks(): Promise<number> {
+    const interrupted = await this.storage.getTasks({ status: "in_progress" });
+    const agentIds = new Set<number>();
+    for (const task of interrupted) {
+      await this.finishTask(task, "failed", { error: "Interrupted by a server restart" });
+      const { agent } = await this.resolveAssignee(task);
+      if (agent) agentIds.add(agent.id);
+    }
+
+    // Only a running task marks an agent busy, and none is running yet
+    const busy = (await this.storage.getAgents()).filter((agent) => agent.status === "busy");
+    busy.forEach((agent) => agentIds.add(agent.id));
+    for (const agentId of Array.from(agentIds)) {
+      await this.refreshAgentMetrics(agentId);
+      await this.setAgentStatus(agentId, "idle");
+    }
+
+    if (interrupted.length) console.log(`[TaskWorker] Marked ${interrupted.length} interrupted task(s) as failed`);
+    return interrupted.length;
+  }
+
+  // Process every runnable pending task once; returns how many were handled
+  async runOnce(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+    try {
+      const pending = await this.storage.getTasks({ status: "pending" });
+      const runnable = pending
+        .filter((task) => task.assignedAgentId != null || task.assignedTwinId != null)
+        .sort(compareTasks);
+
+      for (const task of runnable) {
+        await this.processTask(task);
+      }
+      return runnable.length;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Claim and run one task. The claim only succeeds while the task is still
+   * pending, so a task another worker (or an API call) got to first is
+   * skipped and undefined returned.
+   */
+  async processTask(task: Task): Promise<Task | undefined> {
+    if (!canTransitionTask(task.status, "in_progress")) return undefined;
+    const { persona, agent } = await this.resolveAssignee(task);
+
+    const startedAt = new Date();
+    const started = await this.storage.updateTask(
+      task.id,
+      { status: "in_progress", metadata: { ...metadataOf(task), persona, startedAt: startedAt.toISOString() } },
+      "pending"
+    );
+    if (!started) return undefined;
+    this.emit("task_updated", started);
+
+    if (!persona) {
+      return this.finishTask(started, "failed", { error: "Assigned agent or twin no longer exists" });
+    }
+
+    if (agent) await this.setAgentStatus(agent.id, "busy");
+
+    try {
+      const prompt = task.description ? `${task.title}\n\n${task.description}` : task.title;
+      const result = await this.conversations.generateResponse(persona, prompt);
+      return await this.finishTask(started, "done", {
+        result,
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+    } catch (error: any) {
+      console.error(`[TaskWorker] Task ${task.id} failed:`, error);
+      return await this.finishTask(started, "failed", {
+        error: error?.message || String(error),
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+    } finally {
+      if (agent) {
+        await this.refreshAgentMetrics(agent.id);
+        await this.setAgentStatus(agent.id, "idle");
+      }
+    }
+  }
+
+  // Twin-only tasks still drive the agent that shares the twin's name, if any
+  private async resolveAssignee(task: Task): Promise<{ persona?: string; agent?: Agent }> {
+    let agent: Agent | undefined;
+    if (task.assignedAgentId != null) {
+      agent = await this.storage.getAgent(task.assignedAgentId);
+      if (agent) return { persona: agent.name, agent };
+    }
+    if (task.assignedTwinId != null) {
+      const twin = await this.storage.getDigitalTwin(task.assignedTwinId);
+      if (twin) {
+        const agents = await this.storage.getAgents();
+        return { persona: twin.name, agent: agents.find((a) => a.name === twin.name) };
+      }
+    }
+    return {};
+  }
+
+  private async finishTask(task: Task, status: "done" | "failed", details: Record<string, unknown>) {
+    const updated = await this.storage.updateTask(
+      task.id,
+      { status, metadata: { ...metadataOf(task), ...details, completedAt: new Date().toISOString() } },
+      "in_progress"
+    );
+    if (updated) this.emit("task_updated", updated);
+    return updated;
+  }
+
+  // The agent's own tasks plus unassigned-agent tasks of its namesake twin,
+  // which resolveAssignee also runs as this agent
+  private async tasksOf(agentId: number): Promise<Task[]> {
+    const tasks = await this.storage.getTasksByAgent(agentId);
+    const agent = await this.storage.getAgent(agentId);
+    const twin = agent && (await this.storage.getDigitalTwins()).find((entry) => entry.name === agent.name);
+    if (!twin) return tasks;
+    const twinTasks = await this.storage.getTasks({ assignedTwinId: twin.id });
+    return [...tasks, ...twinTasks.filter((task) => task.assignedAgentId == null)];
+  }
+
+  private async setAgentStatus(agentId: number, status: string) {
+    const agent = await this.storage.updateAgentStatus(agentId, status);
+    if (agent) this.emit("agent_updated", agent);
+  }
+
+  /**
+   * Recompute metrics from the agent's finished tasks: success_rate is the
+   * percentage of tasks that completed, avg_response_time is in milliseconds.
+   */
+  async refreshAgentMetrics(agentId: number): Promise<AgentMetrics> {
+    const tasks = await this.tasksOf(agentId);
+    const finished = tasks.filter((task) => task.status === "done" || task.status === "failed");
+    const succeeded = finished.filter((task) => task.status === "done").length;
+    const durations = finished
+      .map((task) => Number(metadataOf(task).durationMs))
+      .filter((duration) => Number.isFinite(duration));
+
+    const metrics: AgentMetrics = {
+      requests_handled: finished.length,
+      success_rate: finished.length ? Math.round((succeeded / finished.length) * 1000) / 10 : 0,
+      avg_response_time: durations.length
+        ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+        : 0,
+    };
+    await this.storage.updateAgentMetrics(agentId, metrics);
+    return metrics;
+  }
+}
+
+function metadataOf(task: Task): Record<string, any> {
+  return (task.metadata as Record<string, any>) || {};
+}
+
+// Most urgent first, then earliest due date, then oldest
+function compareTasks(a: Task, b: Task): number {
+  const priority = (PRIORITY_ORDER[a.priority] ?? 2) - (PRIORITY_ORDER[b.priority] ?? 2);
+  if (priority !== 0) return priority;
+  const dueA = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+  const dueB = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+  if (dueA !== dueB) return dueA - dueB;
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+export const taskWorker = new TaskWorker(defaultStorage, defaultConversationManager, {
+  pollIntervalMs: process.env.TASK_WORKER_INTERVAL_MS
+    ? parseInt(process.env.TASK_WORKER_INTERVAL_MS, 10)
+    : undefined,
+});
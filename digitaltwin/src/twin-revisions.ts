@@ -0,0 +1,153 @@
+import { storage } from "./storage.js";
+import type { Conversation, DigitalTwin, InsertDigitalTwin, TwinChangeType, TwinFieldChange, TwinRevision } from "./schema.js";
+
+// Twin columns captured in each revision and restored by a rollback
+const SNAPSHOT_FIELDS = ["name", "description", "type", "status", "avatar", "capabilities", "configuration", "metadata"] as const;
+
+// Retries when another writer takes the next revision number first
+const MAX_RECORD_ATTEMPTS = 5;
+
+export type TwinSnapshot = Pick<DigitalTwin, (typeof SNAPSHOT_FIELDS)[number]>;
+
+export interface ChangeContext {
+  changedBy?: string;
+  note?: string;
+}
+
+export function snapshotOf(twin: DigitalTwin): TwinSnapshot {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    snapshot[field] = twin[field] ?? null;
+  }
+  // Deep copy so later in-memory edits cannot alter recorded history
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field-level differences between two snapshots. Objects (configuration,
+ * metadata) are compared key by key and reported with dotted paths; arrays
+ * and scalars are compared as whole values.
+ */
+export function diffSnapshots(before: unknown, after: unknown, path = ""): TwinFieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).flatMap((key) =>
+      diffSnapshots(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+  if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) return [];
+  return [{ path, before: before ?? null, after: after ?? null }];
+}
+
+function pinnedRevisions(conversation: Conversation): Record<string, number> {
+  return ((conversation.metadata as Record<string, any>) || {}).pinnedRevisions || {};
+}
+
+/**
+ * Append-only history of digital twin changes. Every create, update,
+ * knowledge refresh and rollback adds a revision holding the full twin state
+ * and a diff against the previous revision.
+ */
+export class TwinRevisionService {
+  /**
+   * Record the current state of `twin`. Returns undefined when nothing
+   * changed since the last revision. Concurrent writers can pick the same
+   * revision number; the loser re-reads the history and tries again.
+   */
+  async record(twin: DigitalTwin, changeType: TwinChangeType, context: ChangeContext = {}): Promise<TwinRevision | undefined> {
+    const snapshot = snapshotOf(twin);
+    for (let attempt = 0; attempt < MAX_RECORD_ATTEMPTS; attempt++) {
+      const [latest] = await storage.getTwinRevisions(twin.id);
+      const diff = latest ? diffSnapshots(latest.snapshot, snapshot) : diffSnapshots({}, snapshot);
+      if (latest && !diff.length) return undefined;
+
+      const revision = await storage.createTwinRevision({
+        twinId: twin.id,
+        revision: (latest?.revision || 0) + 1,
+        changeType,
+        changedBy: context.changedBy || "system",
+        note: context.note || null,
+        snapshot,
+        diff,
+      });
+      if (revision) {
+        console.log(`[TwinRevisions] Twin ${twin.id} is now at revision ${revision.revision} (${changeType} by ${revision.changedBy})`);
+        return revision;
+      }
+    }
+    throw new Error(`Could not record a revision of twin ${twin.id}: the history kept changing`);
+  }
+
+  async list(twinId: number): Promise<TwinRevision[]> {
+    return storage.getTwinRevisions(twinId);
+  }
+
+  async get(twinId: number, revision: number): Promise<TwinRevision | undefined> {
+    return storage.getTwinRevision(twinId, revision);
+  }
+
+  /**
+   * Restore a twin to an earlier revision. The rollback itself becomes a new
+   * revision. Status and indexed knowledge are not rewound: archiving is
+   * its own lifecycle, and the vector index only holds the latest material.
+   */
+  async rollback(twinId: number, revision: number, context: ChangeContext = {}): Promise<DigitalTwin | undefined> {
+    const [twin, target] = await Promise.all([storage.getDigitalTwin(twinId), this.get(twinId, revision)]);
+    if (!twin || !target) return undefined;
+
+    const snapshot = target.snapshot as Record<string, any>;
+    const currentMetadata = (twin.metadata as Record<string, any>) || {};
+    const restored = await storage.updateDigitalTwin(twinId, {
+      ...snapshot,
+      status: twin.status,
+      metadata: { ...(snapshot.metadata || {}), knowledge: currentMetadata.knowledge },
+    } as Partial<InsertDigitalTwin>);
+    if (!restored) return undefined;
+
+    await this.record(restored, "rollback", {
+      changedBy: context.changedBy,
+      note: context.note || `Rolled back to revision ${revision}`,
+    });
+    return restored;
+  }
+
+  /**
+   * The twin as a conversation should see it: if the conversation pins this
+   * twin to a revision, that revision's snapshot replaces the current state.
+   */
+  async resolveForConversation(twin: DigitalTwin, conversationId?: number): Promise<DigitalTwin> {
+    if (!conversationId) return twin;
+    const conversation = await storage.getConversation(conversationId);
+    const pinned = conversation ? pinnedRevisions(conversation)[twin.id] : undefined;
+    if (!pinned) return twin;
+
+    const revision = await this.get(twin.id, pinned);
+    if (!revision) {
+      console.warn(`[TwinRevisions] Conversation ${conversationId} pins missing revision ${pinned} of twin ${twin.id}`);
+      return twin;
+    }
+    return { ...twin, ...(revision.snapshot as Partial<DigitalTwin>) };
+  }
+
+  // Pin (or with revision null, unpin) a twin revision for one conversation
+  async pinConversation(conversationId: number, twinId: number, revision: number | null): Promise<Conversation | undefined> {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) return undefined;
+    const metadata = (conversation.metadata as Record<string, any>) || {};
+    const pins = { ...pinnedRevisions(conversation) };
+    if (revision === null) {
+      delete pins[twinId];
+    } else {
+      pins[twinId] = revision;
+    }
+    return storage.updateConversation(conversationId, {
+      metadata: { ...metadata, pinnedRevisions: pins },
+    });
+  }
+}
+
+export const twinRevisionService = new TwinRevisionService();
@@ -1,6 +1,7 @@
 import * as dotenv from 'dotenv';
 dotenv.config();
 import { z } from "zod";
+import { personaRegistry } from "./persona-registry.js";
 
 export class VoiceService {
   private apiKey: string;
@@ -20,6 +21,20 @@ export class VoiceService {
   console.log('[VoiceService] API key present:', !!this.apiKey);
   }
 
+  // Voice ids come from the persona registry; near-miss names still match
+  private async resolveVoiceIdForPersona(name?: string): Promise<string | undefined> {
+    if (!name) return undefined;
+    const persona = await personaRegistry.resolve(name);
+    if (persona?.voiceId) return persona.voiceId;
+    const normalized = name.toLowerCase().trim();
+    const personas = await personaRegistry.list();
+    const partial = personas.find(p => {
+      const key = p.name.toLowerCase();
+      return p.voiceId && (normalized.includes(key) || key.includes(normalized));
+    });
+    return partial?.voiceId;
+  }
+
   async synthesizeSpeech({ text, persona, voiceId }: {
     text: string;
     persona?: string;
@@ -42,68 +57,14 @@ export class VoiceService {
         await new Promise(r => setTimeout(r, this.rateLimitDelay - timeSinceLastCall));
       }
 
-      // Map personas to your trained voice IDs
-      const personaVoiceMap: Record<string, string> = {
-        "Leonardo da Vinci": "iLVmqjzCGGvqtMCk6vVQ", // Leonardo (professional)
-        "Steve Jobs": "RScb7njQ3VwA2nyCsZX4", // Steve jobs (cloned)
-        "Albert Einstein": "e2odxVHlmLJ5GY1yuWNl", // Albert E (professional)
-        "Elon Musk": "3ltnAVoovAIVA7uE9Zbz", // Elon Musk (cloned)
-        "Walt Disney": "1KmhFCCzy2hRrIDMEXFZ", // Walt Disney (cloned)
-        "Emad Mostaque": "OXihjRbFbxh4LfP9Wt5H", // Emad mostaque (cloned)
-        "Fei-Fei Li": "JL6vl3xyRi3Ly7WoywNO" // Fi Fi Lee (cloned)
-      };
-
-      // Fuzzy/alias mapping so slight name variations still map to the correct voice
-      const personaAliases: Record<string, string[]> = {
-        "Fei-Fei Li": [
-          "fei fei li",
-          "fei-fei li",
-          "feifei li",
-          "fi fi lee",
-          "fei fei lee",
-          "fei-fei lee",
-          "fifi li",
-          "fei fei le",
-          "fei-fei le",
-          "fe fe li",
-          "fe fe le",
-          "fi fi li",
-        ],
-      };
-
-      const resolveVoiceIdForPersona = (name?: string): string | null => {
-        if (!name) return null;
-        if (personaVoiceMap[name]) return personaVoiceMap[name];
-        const normalized = name.toLowerCase().trim();
-        for (const key of Object.keys(personaVoiceMap)) {
-          if (key.toLowerCase() === normalized) {
-            return personaVoiceMap[key];
-          }
-        }
-        for (const [canonical, aliases] of Object.entries(personaAliases)) {
-          if (aliases.some(a => a === normalized)) {
-            return personaVoiceMap[canonical];
-          }
-        }
-        for (const key of Object.keys(personaVoiceMap)) {
-          if (normalized.includes(key.toLowerCase()) || key.toLowerCase().includes(normalized)) {
-            return personaVoiceMap[key];
-          }
-        }
-        return null;
-      };
-
       let selectedVoiceId = voiceId;
       if (!selectedVoiceId) {
-        selectedVoiceId = resolveVoiceIdForPersona(persona) || undefined;
+        selectedVoiceId = await this.resolveVoiceIdForPersona(persona);
       }
       
       if (!selectedVoiceId) {
-        // Fallback to default voices
-        const isLeonardo = persona?.toLowerCase().includes('leonardo');
-        selectedVoiceId = isLeonardo
-          ? "iLVmqjzCGGvqtMCk6vVQ"  // Leonardo's voice
-          : "RScb7njQ3VwA2nyCsZX4"; // Jobs' voice
+        // Fallback to a default voice
+        selectedVoiceId = "RScb7njQ3VwA2nyCsZX4"; // Jobs' voice
       }
 
       console.log(`Using voice ID: ${selectedVoiceId} for persona: ${persona}`);
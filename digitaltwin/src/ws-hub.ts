@@ -0,0 +1,101 @@
+import { WebSocketServer, WebSocket } from "ws";
+import { parseClientMessage, topicKey, type ClientMessage, type ServerMessage } from "./ws-protocol.js";
+
+export type ClientMessageHandler = (
+  message: ClientMessage,
+  reply: (payload: object) => void,
+  ws: WebSocket
+) => void | Promise<void>;
+
+// Dead connections are terminated after missing one heartbeat
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Tracks WebSocket clients and their topic subscriptions. Handles the
+ * protocol-level messages (ping, subscribe, unsubscribe) itself and passes
+ * every other validated message to the handler given to `attach`.
+ */
+export class RealtimeHub {
+  private subscriptions = new Map<WebSocket, Set<string>>();
+  private alive = new WeakSet<WebSocket>();
+
+  attach(wss: WebSocketServer, onMessage: ClientMessageHandler, onConnect?: (ws: WebSocket) => void) {
+    const heartbeat = setInterval(() => {
+      wss.clients.forEach((ws) => {
+        if (!this.alive.has(ws)) {
+          console.log("Terminating unresponsive WebSocket connection");
+          ws.terminate();
+          return;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+    wss.on("close", () => clearInterval(heartbeat));
+
+    wss.on("connection", (ws) => {
+      console.log("New WebSocket connection established");
+      this.alive.add(ws);
+      // Existing dashboards expect agent updates without subscribing first
+      this.subscriptions.set(ws, new Set(["agents"]));
+
+      ws.on("pong", () => this.alive.add(ws));
+      ws.on("close", () => this.subscriptions.delete(ws));
+      ws.on("error", console.error);
+
+      ws.on("message", async (raw) => {
+        this.alive.add(ws);
+        const reply = (payload: object) => this.send(ws, payload);
+        const parsed = parseClientMessage(raw.toString());
+        if (parsed.success === false) {
+          reply({ type: "error", requestId: parsed.requestId, error: parsed.error, details: parsed.details });
+          return;
+        }
+
+        const message = parsed.message;
+        try {
+          if (message.type === "ping") {
+            reply({ type: "pong", requestId: message.requestId });
+          } else if (message.type === "subscribe") {
+            const topic = topicKey(message);
+            this.subscriptions.get(ws)?.add(topic);
+            reply({ type: "subscribed", requestId: message.requestId, topic });
+          } else if (message.type === "unsubscribe") {
+            const topic = topicKey(message);
+            this.subscriptions.get(ws)?.delete(topic);
+            reply({ type: "unsubscribed", requestId: message.requestId, topic });
+          } else {
+            await onMessage(message, reply, ws);
+          }
+        } catch (error: any) {
+          console.error(`Error handling WebSocket message "${message.type}":`, error);
+          reply({ type: "error", requestId: message.requestId, error: error?.message || "Failed to handle message" });
+        }
+      });
+
+      onConnect?.(ws);
+    });
+  }
+
+  // Send to every client subscribed to `topic`
+  publish(topic: string, message: ServerMessage) {
+    const payload = JSON.stringify(message);
+    let delivered = 0;
+    this.subscriptions.forEach((topics, ws) => {
+      if (topics.has(topic) && ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
+        delivered++;
+      }
+    });
+    return delivered;
+  }
+
+  send(ws: WebSocket, payload: object) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(payload));
+    }
+  }
+}
+
+export const realtimeHub = new RealtimeHub();
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseClientMessage, topicKey } from "./ws-protocol.js";
+
+describe("parseClientMessage", () => {
+  it("accepts each message type", () => {
+    const messages = [
+      { type: "ping", requestId: "1" },
+      { type: "subscribe", topic: "agents" },
+      { type: "subscribe", topic: "task", id: 4 },
+      { type: "unsubscribe", topic: "job", id: 2 },
+      { type: "start_chat", persona: "einstein", message: "Hi", history: [{ role: "user", content: "Before" }] },
+      { type: "start_debate", topic: "Remote work", speakers: ["jobs", "einstein"], rounds: 2, moderator: true },
+    ];
+    for (const message of messages) {
+      const result = parseClientMessage(JSON.stringify(message));
+      assert.equal(result.success, true, JSON.stringify(message));
+      if (result.success) assert.equal(result.message.type, message.type);
+    }
+  });
+
+  it("rejects frames that are not JSON", () => {
+    assert.deepEqual(parseClientMessage("{nope"), { success: false, error: "Message is not valid JSON" });
+  });
+
+  it("rejects unknown types and bad fields, echoing the request id", () => {
+    const unknown = parseClientMessage(JSON.stringify({ type: "agent_status_update", requestId: "r1", agentId: 1 }));
+    assert.equal(unknown.success, false);
+    if (!unknown.success) {
+      assert.equal(unknown.error, "Invalid message");
+      assert.equal(unknown.requestId, "r1");
+    }
+
+    const tooShort = parseClientMessage(JSON.stringify({ type: "start_debate", topic: "AI", speakers: ["jobs"] }));
+    assert.equal(tooShort.success, false);
+    const empty = parseClientMessage(JSON.stringify({ type: "start_chat", persona: "jobs", message: "" }));
+    assert.equal(empty.success, false);
+  });
+
+  it("requires an id for every topic except agents", () => {
+    const result = parseClientMessage(JSON.stringify({ type: "subscribe", topic: "conversation" }));
+    assert.equal(result.success, false);
+    if (!result.success) assert.deepEqual((result.details as any).fieldErrors.id, ['Topic "conversation" requires an id']);
+  });
+
+  it("ignores a request id that is not a string", () => {
+    for (const raw of ['"just a string"', "null", JSON.stringify({ type: "nope", requestId: 7 })]) {
+      const result = parseClientMessage(raw);
+      assert.equal(result.success, false);
+      if (!result.success) assert.equal(result.requestId, undefined);
+    }
+  });
+});
+
+describe("topicKey", () => {
+  it("keys id topics by type and id", () => {
+    assert.equal(topicKey({ topic: "agents" }), "agents");
+    assert.equal(topicKey({ topic: "task", id: 3 }), "task:3");
+  });
+});
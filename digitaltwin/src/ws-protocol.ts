@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+const requestId = z.string().max(100).optional();
+
+// Topics a client can subscribe to; conversation, task and job topics need an id
+const subscriptionFields = {
+  requestId,
+  topic: z.enum(["agents", "conversation", "task", "job"]),
+  id: z.number().int().positive().optional(),
+};
+
+const historyEntrySchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().max(10000),
+  persona: z.string().optional(),
+});
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ping"), requestId }),
+  z.object({ type: z.literal("subscribe"), ...subscriptionFields }),
+  z.object({ type: z.literal("unsubscribe"), ...subscriptionFields }),
+  z.object({
+    type: z.literal("start_chat"),
+    requestId,
+    persona: z.string().min(1).max(100),
+    message: z.string().min(1).max(4000),
+    history: z.array(historyEntrySchema).max(50).optional(),
+    includeAudio: z.boolean().optional(),
+    conversationId: z.number().int().positive().optional(),
+  }),
+  z.object({
+    type: z.literal("start_debate"),
+    requestId,
+    topic: z.string().trim().min(1).max(500),
+    speakers: z.array(z.string().min(1)).min(2).max(6).optional(),
+    rounds: z.number().int().min(1).max(10).optional(),
+    moderator: z.union([z.boolean(), z.string().min(1)]).optional(),
+    includeAudio: z.boolean().optional(),
+    pauseMs: z.number().int().min(0).max(5000).optional(),
+  }),
+]).superRefine((message, ctx) => {
+  if ((message.type === "subscribe" || message.type === "unsubscribe") && message.topic !== "agents" && !message.id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["id"], message: `Topic "${message.topic}" requires an id` });
+  }
+});
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type Topic = Pick<Extract<ClientMessage, { type: "subscribe" }>, "topic" | "id">;
+
+// Messages the server pushes outside of chat/debate streams
+export type ServerMessage =
+  | { type: "pong"; requestId?: string }
+  | { type: "subscribed"; requestId?: string; topic: string }
+  | { type: "unsubscribed"; requestId?: string; topic: string }
+  | { type: "agents_update"; data: unknown[] }
+  | { type: "task_update"; data: unknown }
+  | { type: "conversation_update"; data: unknown }
+  | { type: "job_update"; data: unknown }
+  | { type: "error"; requestId?: string; error: string; details?: unknown };
+
+export function topicKey(topic: Topic): string {
+  return topic.topic === "agents" ? "agents" : `${topic.topic}:${topic.id}`;
+}
+
+export type ParseResult =
+  | { success: true; message: ClientMessage }
+  | { success: false; error: string; details?: unknown; requestId?: string };
+
+/**
+ * Parse and validate a raw socket frame. Never throws: malformed JSON and
+ * schema violations come back as an error result to relay to the client.
+ */
+export function parseClientMessage(raw: string): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { success: false, error: "Message is not valid JSON" };
+  }
+
+  const result = clientMessageSchema.safeParse(data);
+  if (!result.success) {
+    // Echo the request id back when there is one, so the client can match the error
+    const requestId =
+      typeof data === "object" && data && "requestId" in data && typeof data.requestId === "string"
+        ? data.requestId
+        : undefined;
+    return { success: false, error: "Invalid message", details: result.error.flatten(), requestId };
+  }
+  return { success: true, message: result.data };
+}